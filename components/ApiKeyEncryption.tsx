@@ -0,0 +1,183 @@
+import { Lock, LockOpen } from "lucide-react"
+import { useState } from "react"
+
+import { Button } from "~/components/ui/button"
+import { Input } from "~/components/ui/input"
+import {
+  disableEncryption,
+  enableEncryption,
+  lockVault,
+  resetEncryption,
+  unlockVault,
+  type VaultState
+} from "~/utils/api-key-vault"
+import { t } from "~/utils/i18n"
+
+// 口令最短长度
+const MIN_PASSPHRASE_LENGTH = 8
+
+interface ApiKeyEncryptionProps {
+  state: VaultState
+  // 加密状态变化后由设置页重新加载配置
+  onChange: () => void
+}
+
+export function ApiKeyEncryption({ state, onChange }: ApiKeyEncryptionProps) {
+  const [passphrase, setPassphrase] = useState("")
+  const [confirmation, setConfirmation] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  const run = async (action: () => Promise<string | null>) => {
+    setBusy(true)
+    setError(null)
+    try {
+      const actionError = await action()
+      setError(actionError)
+      if (!actionError) {
+        setPassphrase("")
+        setConfirmation("")
+        onChange()
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleEnable = () =>
+    run(async () => {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        return t("passphraseTooShort", String(MIN_PASSPHRASE_LENGTH))
+      }
+      if (passphrase !== confirmation) return t("passphraseMismatch")
+      await enableEncryption(passphrase)
+      return null
+    })
+
+  const handleUnlock = () =>
+    run(async () =>
+      (await unlockVault(passphrase)) ? null : t("wrongPassphrase")
+    )
+
+  const handleLock = () =>
+    run(async () => {
+      await lockVault()
+      return null
+    })
+
+  const handleReset = () => {
+    if (!window.confirm(t("resetEncryptionConfirm"))) return
+    run(async () => {
+      await resetEncryption()
+      return null
+    })
+  }
+
+  const handleDisable = () =>
+    run(async () => {
+      await disableEncryption()
+      return null
+    })
+
+  return (
+    <div className="space-y-2">
+      {!state.enabled && (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleEnable()
+          }}>
+          <Input
+            type="password"
+            className="h-9 text-xs"
+            autoComplete="new-password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={t("passphrase")}
+          />
+          <Input
+            type="password"
+            className="h-9 text-xs"
+            autoComplete="new-password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder={t("confirmPassphrase")}
+          />
+          <Button
+            type="submit"
+            size="sm"
+            className="h-9 text-xs gap-1.5 flex-shrink-0"
+            disabled={busy || !passphrase}>
+            <Lock className="h-3.5 w-3.5" />
+            {t("encryptApiKeys")}
+          </Button>
+        </form>
+      )}
+
+      {state.enabled && state.locked && (
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault()
+            handleUnlock()
+          }}>
+          <Input
+            type="password"
+            className="h-9 text-xs"
+            autoComplete="current-password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={t("passphrase")}
+          />
+          <Button
+            type="submit"
+            size="sm"
+            className="h-9 text-xs gap-1.5 flex-shrink-0"
+            disabled={busy || !passphrase}>
+            <LockOpen className="h-3.5 w-3.5" />
+            {t("unlockApiKeys")}
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="h-9 text-xs flex-shrink-0"
+            disabled={busy}
+            onClick={handleReset}>
+            {t("forgotPassphrase")}
+          </Button>
+        </form>
+      )}
+
+      {state.enabled && !state.locked && (
+        <div className="flex items-center gap-2">
+          <p className="flex-1 text-xs text-green-700 dark:text-green-400">
+            {t("apiKeysUnlocked")}
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs gap-1.5"
+            disabled={busy}
+            onClick={handleLock}>
+            <Lock className="h-3.5 w-3.5" />
+            {t("lockApiKeys")}
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-8 text-xs"
+            disabled={busy}
+            onClick={handleDisable}>
+            {t("disableEncryption")}
+          </Button>
+        </div>
+      )}
+
+      {error && <p className="text-xs text-red-500">{error}</p>}
+    </div>
+  )
+}
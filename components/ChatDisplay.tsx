@@ -0,0 +1,251 @@
+import { Send, Trash2 } from "lucide-react"
+import React, { useEffect, useRef, useState } from "react"
+import { toast } from "sonner"
+import { storage } from "@wxt-dev/storage"
+import { Button } from "~/components/ui/button"
+import { Input } from "~/components/ui/input"
+import { ScrollArea } from "~/components/ui/scroll-area"
+import type { ChatMessage } from "~/utils/ai-service"
+import { t } from "~/utils/i18n"
+
+import { ReasoningDisplay } from "./ReasoningDisplay"
+import { SimpleMarkdown } from "./SimpleMarkdown"
+
+export interface ChatGenerateConfig {
+  getContent: () => string | null
+  getTitle?: () => string
+  additionalData?: Record<string, any>
+}
+
+interface ChatDisplayProps {
+  generateConfig?: ChatGenerateConfig
+  cacheKey?: string
+}
+
+export function ChatDisplay({ generateConfig, cacheKey }: ChatDisplayProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  // 正在生成中的回复
+  const [pendingReply, setPendingReply] = useState("")
+  const [input, setInput] = useState("")
+  const [aiLoading, setAiLoading] = useState(false)
+  const [reasoning, setReasoning] = useState("")
+
+  const portRef = useRef<chrome.runtime.Port | null>(null)
+  const scrollAreaRef = useRef<HTMLDivElement>(null)
+  const replyRef = useRef("")
+
+  // 加载缓存的对话
+  const loadCacheData = async () => {
+    setMessages([])
+    if (!cacheKey) return
+
+    try {
+      const cached = await storage.getItem<{
+        messages: ChatMessage[]
+        timestamp: number
+      }>(`local:${cacheKey}`)
+      if (cached && Array.isArray(cached.messages)) {
+        const isExpired = Date.now() - cached.timestamp > 24 * 60 * 60 * 1000 // 24小时过期
+        if (!isExpired) {
+          setMessages(cached.messages)
+        }
+      }
+    } catch (error) {
+      console.error("加载缓存失败:", error)
+    }
+  }
+
+  // 保存对话到缓存
+  const saveCacheData = async (messages: ChatMessage[]) => {
+    if (!cacheKey) return
+
+    try {
+      if (messages.length === 0) {
+        await storage.removeItem(`local:${cacheKey}`)
+        return
+      }
+      await storage.setItem(`local:${cacheKey}`, {
+        messages,
+        timestamp: Date.now()
+      })
+    } catch (error) {
+      console.error("保存缓存失败:", error)
+    }
+  }
+
+  useEffect(() => {
+    loadCacheData()
+  }, [cacheKey])
+
+  // 卸载时断开连接，停止生成
+  useEffect(() => {
+    return () => {
+      portRef.current?.disconnect()
+      portRef.current = null
+    }
+  }, [])
+
+  // 自动滚动到底部
+  useEffect(() => {
+    const scrollElement = scrollAreaRef.current?.querySelector(
+      "[data-radix-scroll-area-viewport]"
+    ) as HTMLElement
+    if (scrollElement) {
+      scrollElement.scrollTop = scrollElement.scrollHeight
+    }
+  }, [messages, pendingReply, reasoning])
+
+  const sendMessage = () => {
+    const question = input.trim()
+    if (!generateConfig || !question || aiLoading) return
+
+    const content = generateConfig.getContent()
+    if (!content) {
+      toast.error(t("noContentAvailable"))
+      return
+    }
+
+    const history: ChatMessage[] = [
+      ...messages,
+      { role: "user", content: question }
+    ]
+    setMessages(history)
+    setInput("")
+    setAiLoading(true)
+    setPendingReply("")
+    setReasoning("")
+    replyRef.current = ""
+
+    if (portRef.current) portRef.current.disconnect()
+
+    const port = chrome.runtime.connect({ name: "AI_STREAM" })
+    portRef.current = port
+
+    port.onMessage.addListener((msg) => {
+      if (msg.type === "chunk") {
+        if (msg.reasoning) {
+          setReasoning((prev) => prev + msg.reasoning)
+        }
+        if (msg.content) {
+          setReasoning("")
+          replyRef.current += msg.content
+          setPendingReply(replyRef.current)
+        }
+      } else if (msg.type === "done") {
+        const updated: ChatMessage[] = [
+          ...history,
+          { role: "assistant", content: replyRef.current }
+        ]
+        setMessages(updated)
+        saveCacheData(updated)
+        setPendingReply("")
+        setReasoning("")
+        setAiLoading(false)
+        port.disconnect()
+        portRef.current = null
+      } else if (msg.type === "error") {
+        // 生成失败时撤回本次提问，方便用户修改后重试
+        setMessages(history.slice(0, -1))
+        setInput(question)
+        setPendingReply("")
+        setReasoning("")
+        setAiLoading(false)
+        toast.error(msg.error || t("chatFailed"))
+        port.disconnect()
+        portRef.current = null
+      }
+    })
+
+    port.postMessage({
+      action: "chatStream",
+      ...generateConfig.additionalData,
+      content,
+      title: generateConfig.getTitle?.(),
+      messages: history
+    })
+  }
+
+  const clearChat = () => {
+    portRef.current?.disconnect()
+    portRef.current = null
+    setMessages([])
+    setPendingReply("")
+    setReasoning("")
+    setAiLoading(false)
+    saveCacheData([])
+  }
+
+  return (
+    <div className="flex-1 flex flex-col h-full min-h-0">
+      <div className="flex-1 overflow-auto">
+        {messages.length === 0 && !aiLoading ? (
+          <div className="text-center py-[40px] px-[20px] text-gray-600 text-[12px]">
+            {t("chatEmptyHint")}
+          </div>
+        ) : (
+          <ScrollArea className="h-full" ref={scrollAreaRef}>
+            <div className="flex flex-col gap-2 pb-2">
+              {messages.map((message, index) =>
+                message.role === "user" ? (
+                  <div
+                    key={index}
+                    className="self-end max-w-[85%] bg-blue-500 text-white text-[14px] py-[6px] px-[10px] rounded-[8px] whitespace-pre-wrap break-words">
+                    {message.content}
+                  </div>
+                ) : (
+                  <div
+                    key={index}
+                    className="prose max-w-full p-[10px] border border-gray-300 rounded-[6px]">
+                    <SimpleMarkdown content={message.content} />
+                  </div>
+                )
+              )}
+              {aiLoading &&
+                (pendingReply ? (
+                  <div className="prose max-w-full p-[10px] border border-gray-300 rounded-[6px]">
+                    <SimpleMarkdown content={pendingReply} />
+                  </div>
+                ) : (
+                  <ReasoningDisplay reasoning={reasoning} />
+                ))}
+            </div>
+          </ScrollArea>
+        )}
+      </div>
+
+      <form
+        className="flex gap-2 pt-2"
+        onSubmit={(e) => {
+          e.preventDefault()
+          sendMessage()
+        }}>
+        <Input
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          placeholder={t("chatPlaceholder")}
+          disabled={aiLoading}
+          className="h-8"
+        />
+        <Button
+          type="submit"
+          size="sm"
+          className="px-3 shrink-0"
+          disabled={aiLoading || !input.trim()}
+          title={t("send")}>
+          <Send className="h-4 w-4" />
+        </Button>
+        {messages.length > 0 && (
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            className="px-3 shrink-0"
+            onClick={clearChat}
+            title={t("clearChat")}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,71 @@
+import React from "react"
+
+import { cn } from "~/lib/utils"
+import type { GenerationEstimate } from "~/hooks/useGenerationEstimate"
+import { t } from "~/utils/i18n"
+import {
+  formatCost,
+  formatTokens,
+  type TokenUsage
+} from "~/utils/token-estimator"
+
+// 一次生成的结果信息，由后台在 done 消息中返回
+export interface GenerationResult {
+  provider?: string | null
+  usage?: TokenUsage | null
+  cost?: number | null
+}
+
+interface GenerationInfoProps {
+  result: GenerationResult
+  className?: string
+}
+
+/**
+ * 展示生成结果的服务商、实际 Token 用量和费用
+ */
+export function GenerationInfo({ result, className }: GenerationInfoProps) {
+  const parts: string[] = []
+  if (result.provider) {
+    parts.push(t("generatedBy", result.provider))
+  }
+  if (result.usage) {
+    parts.push(
+      t("usageTokens", [
+        formatTokens(result.usage.inputTokens),
+        formatTokens(result.usage.outputTokens)
+      ])
+    )
+  }
+  if (typeof result.cost === "number") {
+    parts.push(formatCost(result.cost))
+  }
+  if (parts.length === 0) return null
+
+  return (
+    <div className={cn("text-[11px] text-gray-400", className)}>
+      {parts.join(" · ")}
+    </div>
+  )
+}
+
+interface EstimateInfoProps {
+  estimate: GenerationEstimate | null
+}
+
+/**
+ * 展示生成前的 Token 与费用估算
+ */
+export function EstimateInfo({ estimate }: EstimateInfoProps) {
+  if (!estimate) return null
+
+  return (
+    <div className="mt-[8px] text-[11px] text-gray-400">
+      {t("estimatedTokens", [
+        formatTokens(estimate.inputTokens),
+        formatTokens(estimate.outputTokens)
+      ])}
+      {estimate.cost !== null && ` · ${t("estimatedCost", formatCost(estimate.cost))}`}
+    </div>
+  )
+}
@@ -1,6 +1,6 @@
 import { downloadMethodList } from "@mind-elixir/export-mindmap"
 import { launchMindElixir } from "@mind-elixir/open-desktop"
-import { Copy, Download, ExternalLink, Maximize } from "lucide-react"
+import { Copy, Download, ExternalLink, Maximize, Square } from "lucide-react"
 import type { MindElixirData } from "mind-elixir"
 import {
   mindElixirToPlaintext,
@@ -12,7 +12,15 @@ import { storage } from "@wxt-dev/storage"
 import MindElixirReact, {
   type MindElixirReactRef
 } from "~/components/MindElixirReact"
-import { ReasoningDisplay } from "~/components/ReasoningDisplay"
+import {
+  ReasoningDisplay,
+  type GenerationProgress
+} from "~/components/ReasoningDisplay"
+import {
+  EstimateInfo,
+  GenerationInfo,
+  type GenerationResult
+} from "~/components/GenerationInfo"
 import { Button } from "~/components/ui/button"
 import { Tooltip } from "~/components/ui/tooltip"
 import {
@@ -22,10 +30,12 @@ import {
   DropdownMenuPortal,
   DropdownMenuTrigger
 } from "~/components/ui/dropdown-menu"
+import { useGenerationEstimate } from "~/hooks/useGenerationEstimate"
 import { fullscreen } from "~/utils/fullscreen"
 import { t } from "~/utils/i18n"
 import { options } from "~/utils/mind-elixir"
 import { ResponseParser } from "~/utils/response-parser"
+import type { TokenUsage } from "~/utils/token-estimator"
 
 export interface MindmapGenerateConfig {
   action: string
@@ -65,6 +75,14 @@ export function MindmapDisplay({
   const [mindmapData, setMindmapData] = useState<MindElixirData | null>(null)
   const [cacheLoaded, setCacheLoaded] = useState(false)
   const [reasoning, setReasoning] = useState("")
+  const [progress, setProgress] = useState<GenerationProgress | null>(null)
+  // 实际生成结果的服务商（可能是备用服务商）及 Token 用量
+  const [result, setResult] = useState<GenerationResult | null>(null)
+  // 用户中途停止生成，导图不完整
+  const [incomplete, setIncomplete] = useState(false)
+  const portRef = useRef<chrome.runtime.Port | null>(null)
+  // 已接收的导图文本，停止生成时用于解析出部分导图
+  const plaintextRef = useRef("")
   // Server-side cache state (Mind Elixir model only, non-BYOK)
   const [serverCacheAvailable, setServerCacheAvailable] = useState<boolean | null>(null)
   const [serverCacheFetching, setServerCacheFetching] = useState(false)
@@ -134,11 +152,21 @@ export function MindmapDisplay({
       const cached = await storage.getItem<{
         mindmapData: MindElixirData
         timestamp: number
+        provider?: string
+        usage?: TokenUsage | null
+        cost?: number | null
+        incomplete?: boolean
       }>(`local:${cacheKey}`)
       if (cached && cached.mindmapData) {
         const isExpired = Date.now() - cached.timestamp > 24 * 60 * 60 * 1000 // 24小时过期
         if (!isExpired) {
           setMindmapData(cached.mindmapData)
+          setIncomplete(!!cached.incomplete)
+          setResult({
+            provider: cached.provider,
+            usage: cached.usage,
+            cost: cached.cost
+          })
           setCacheLoaded(true)
         }
       }
@@ -147,7 +175,7 @@ export function MindmapDisplay({
     }
   }
 
-  // 保存缓存数据
+  // 保存从服务端获取的思维导图；生成的结果由后台任务连同用量信息写入缓存
   const saveCacheData = async (mindmapData: MindElixirData) => {
     if (!cacheKey) return
 
@@ -183,6 +211,10 @@ export function MindmapDisplay({
       setMindmapLoading(true)
       setMindmapData(null) // Clear previous data
       setReasoning("")
+      setProgress(null)
+      setResult(null)
+      setIncomplete(false)
+      setCacheLoaded(false)
 
       const messageData: any = {
         action: generateConfig.action,
@@ -200,85 +232,151 @@ export function MindmapDisplay({
         messageData.title = generateConfig.getTitle()
       }
 
+      // 带缓存键时后台作为任务运行，面板关闭后仍会完成并写入缓存
+      messageData.cacheKey = cacheKey
+
       // Establish streaming connection
+      if (portRef.current) portRef.current.disconnect()
       const port = chrome.runtime.connect({ name: "AI_STREAM" })
+      portRef.current = port
+      plaintextRef.current = ""
+      listenToPort(port)
       port.postMessage(messageData)
+    } catch (error) {
+      console.error("启动生成思维导图失败:", error)
+      toast.error(error instanceof Error ? error.message : t("generateMindmapFailed"))
+      setMindmapLoading(false)
+    }
+  }
 
-      let accumulatedPlaintext = ""
-      let lastRenderTime = 0
-      const RENDER_THROTTLE_MS = 500 // 500ms throttle
+  // 解析已接收的导图文本并渲染，流式过程中文本不完整时可能解析失败
+  const renderPlaintext = () => {
+    try {
+      const cleanedText = ResponseParser.cleanMindmapResponse(
+        plaintextRef.current
+      )
+      if (cleanedText) setMindmapData(plaintextToMindElixir(cleanedText))
+    } catch (e) {
+      // Ignore parse errors during streaming (incomplete data)
+      console.warn("Stream parse error:", e)
+    }
+  }
 
-      port.onMessage.addListener(async (msg) => {
-        if (msg.type === "chunk") {
-          if (msg.reasoning) {
-            setReasoning((prev) => prev + msg.reasoning)
-          }
+  // 处理后台推送的生成进度（新生成或重新连接到运行中的任务）
+  const listenToPort = (port: chrome.runtime.Port) => {
+    let lastRenderTime = 0
+    const RENDER_THROTTLE_MS = 500 // 500ms throttle
+
+    port.onMessage.addListener(async (msg) => {
+      if (msg.type === "snapshot") {
+        setMindmapLoading(true)
+        setCacheLoaded(false)
+        setIncomplete(false)
+        setResult(null)
+        setReasoning(msg.reasoning || "")
+        setProgress(msg.progress)
+        plaintextRef.current = msg.content || ""
+        setMindmapData(null)
+        renderPlaintext()
+      } else if (msg.type === "noJob") {
+        port.disconnect()
+        if (portRef.current === port) portRef.current = null
+      } else if (msg.type === "interrupted") {
+        port.disconnect()
+        if (portRef.current === port) portRef.current = null
+        loadCacheData()
+        toast.info(t("generationInterrupted"))
+      } else if (msg.type === "chunk") {
+        if (msg.reasoning) {
+          setReasoning((prev) => prev + msg.reasoning)
+        }
 
-          if (msg.content) {
-            // Once we start receiving content, we clear reasoning (it's transient)
-            // But we might want to do it only once. Since reasoning and content usually don't mix interleaved in a way that we want to show reasoning flashes.
-            // When we get first content chunk, we can clear reasoning.
-            setReasoning("") // Ensuring reasoning is hidden when content starts
-
-            accumulatedPlaintext += msg.content || ""
-
-            // Throttle rendering
-            const now = Date.now()
-            if (now - lastRenderTime > RENDER_THROTTLE_MS) {
-              try {
-                // Import lazily or assumes imported
-                const cleanedText =
-                  ResponseParser.cleanMindmapResponse(accumulatedPlaintext)
-                const data = plaintextToMindElixir(cleanedText)
-                setMindmapData(data)
-                lastRenderTime = now
-              } catch (e) {
-                // Ignore parse errors during streaming (incomplete data)
-                console.warn("Stream parse error:", e)
-              }
-            }
-          }
-        } else if (msg.type === "done") {
-          // Final render
-          try {
-            setReasoning("") // Ensure reasoning is gone
-            console.log("Final render", accumulatedPlaintext)
-            const cleanedText =
-              ResponseParser.cleanMindmapResponse(accumulatedPlaintext)
-            const data = plaintextToMindElixir(cleanedText)
-            setMindmapData(data)
-            await saveCacheData(data)
-            setCacheLoaded(false)
-          } catch (e) {
-            console.error("Final parse error:", e)
-            toast.error(t("generateMindmapFailed"))
-          } finally {
-            setMindmapLoading(false)
-            port.disconnect()
+        if (msg.content) {
+          // Once we start receiving content, we clear reasoning (it's transient)
+          // But we might want to do it only once. Since reasoning and content usually don't mix interleaved in a way that we want to show reasoning flashes.
+          // When we get first content chunk, we can clear reasoning.
+          setReasoning("") // Ensuring reasoning is hidden when content starts
+          setProgress(null)
+
+          plaintextRef.current += msg.content || ""
+
+          // Throttle rendering
+          const now = Date.now()
+          if (now - lastRenderTime > RENDER_THROTTLE_MS) {
+            renderPlaintext()
+            lastRenderTime = now
           }
-        } else if (msg.type === "error") {
-          console.error("生成思维导图失败:", msg.error)
-          toast.error(msg.error || t("generateMindmapFailed"))
+        }
+      } else if (msg.type === "progress") {
+        setReasoning("")
+        setProgress({
+          stage: msg.stage,
+          current: msg.current,
+          total: msg.total
+        })
+      } else if (msg.type === "done") {
+        // Final render
+        try {
+          setReasoning("") // Ensure reasoning is gone
+          setProgress(null)
+          console.log("Final render", plaintextRef.current)
+          const cleanedText =
+            ResponseParser.cleanMindmapResponse(plaintextRef.current)
+          const data = plaintextToMindElixir(cleanedText)
+          setMindmapData(data)
+          // 结果已由后台写入缓存
+          setResult({
+            provider: msg.provider,
+            usage: msg.usage,
+            cost: msg.cost
+          })
+          setCacheLoaded(false)
+        } catch (e) {
+          console.error("Final parse error:", e)
+          toast.error(t("generateMindmapFailed"))
+        } finally {
           setMindmapLoading(false)
           port.disconnect()
-        } else if (msg.type === "freeGenerationUsed") {
-          // Decrement the free generation quota display
-          setFreeGenerationQuota((prev) => {
-            if (!prev) return null
-            const newRemaining = prev.remaining - 1
-            if (newRemaining <= 0) {
-              toast.info(t("freeGenerationExhausted"))
-              return null
-            }
-            return { ...prev, remaining: newRemaining }
-          })
+          portRef.current = null
         }
-      })
-    } catch (error) {
-      console.error("启动生成思维导图失败:", error)
-      toast.error(error instanceof Error ? error.message : t("generateMindmapFailed"))
-      setMindmapLoading(false)
+      } else if (msg.type === "error") {
+        console.error("生成思维导图失败:", msg.error)
+        toast.error(msg.error || t("generateMindmapFailed"))
+        setMindmapLoading(false)
+        setProgress(null)
+        port.disconnect()
+        portRef.current = null
+      } else if (msg.type === "freeGenerationUsed") {
+        // Decrement the free generation quota display
+        setFreeGenerationQuota((prev) => {
+          if (!prev) return null
+          const newRemaining = prev.remaining - 1
+          if (newRemaining <= 0) {
+            toast.info(t("freeGenerationExhausted"))
+            return null
+          }
+          return { ...prev, remaining: newRemaining }
+        })
+      }
+    })
+  }
+
+  // 停止生成：后台中止请求并以不完整状态写入缓存，面板上保留已接收部分解析出的导图
+  const stopGeneration = () => {
+    if (!portRef.current) return
+    if (cacheKey) {
+      portRef.current.postMessage({ action: "cancelJob", cacheKey })
     }
+    portRef.current.disconnect()
+    portRef.current = null
+    setMindmapLoading(false)
+    setReasoning("")
+    setProgress(null)
+    toast.info(t("generationStopped"))
+
+    if (!plaintextRef.current) return
+    renderPlaintext()
+    setIncomplete(true)
   }
 
   const openInMindElixir = async () => {
@@ -302,11 +400,35 @@ export function MindmapDisplay({
     }
   }
 
-  // 加载缓存数据
+  // 加载缓存数据，并重新连接到该内容在后台运行中的任务
   useEffect(() => {
-    loadCacheData()
+    let cancelled = false
+    // 先加载缓存再连接，避免缓存内容覆盖任务的进度快照
+    loadCacheData().then(() => {
+      if (cancelled || !cacheKey) return
+      const port = chrome.runtime.connect({ name: "AI_STREAM" })
+      portRef.current = port
+      listenToPort(port)
+      port.postMessage({ action: "attachJob", cacheKey })
+    })
+
+    return () => {
+      cancelled = true
+      // 只断开监听，后台任务继续运行
+      portRef.current?.disconnect()
+      portRef.current = null
+      setMindmapLoading(false)
+    }
   }, [cacheKey])
 
+  // 生成前估算 Token 与费用
+  const estimate = useGenerationEstimate(
+    generateConfig?.action,
+    generateConfig?.getContent,
+    generateConfig?.getTitle,
+    show !== false && !mindmapData && !mindmapLoading
+  )
+
   // 从服务端获取已缓存的思维导图
   const fetchCachedMindmap = async () => {
     if (!videoUrl || !BACKEND_BASE_URL) return
@@ -344,6 +466,8 @@ export function MindmapDisplay({
             const cleaned = ResponseParser.cleanMindmapResponse(data.mindmapText)
             const parsed = plaintextToMindElixir(cleaned)
             setMindmapData(parsed)
+            setResult(null)
+            setIncomplete(false)
             setServerCacheAvailable(false) // hide Content Ready button once loaded
             if (typeof data.remaining === "number") {
               setRemainingAttempts(data.remaining)
@@ -410,6 +534,17 @@ export function MindmapDisplay({
     }
   }
 
+  const stopButton = mindmapLoading && (
+    <Button
+      onClick={stopGeneration}
+      size="sm"
+      variant="destructive"
+      className="shrink-0"
+      title={t("stopGeneration")}>
+      <Square className="w-4 h-4" />
+    </Button>
+  )
+
   const handleCopy = async (format: "json" | "plaintext") => {
     const instance = mindmapRef.current?.instance
     if (!instance) return
@@ -433,16 +568,19 @@ export function MindmapDisplay({
     <div className="flex-1 flex flex-col h-full">
       <div className="flex mb-2 gap-2 justify-between">
         {!mindmapData ? (
-          <Tooltip content={generateTooltipContent} className="flex-grow">
-            <Button
-              className="flex-grow w-full"
-              onClick={handleGenerateClick}
-              disabled={generateButtonDisabled}
-              size="sm"
-              title={generateTooltipContent ? undefined : generateButtonLabel}>
-              {generateButtonLabel}
-            </Button>
-          </Tooltip>
+          <>
+            <Tooltip content={generateTooltipContent} className="flex-grow">
+              <Button
+                className="flex-grow w-full"
+                onClick={handleGenerateClick}
+                disabled={generateButtonDisabled}
+                size="sm"
+                title={generateTooltipContent ? undefined : generateButtonLabel}>
+                {generateButtonLabel}
+              </Button>
+            </Tooltip>
+            {stopButton}
+          </>
         ) : (
           <>
             <Button
@@ -452,6 +590,7 @@ export function MindmapDisplay({
               size="sm">
               {mindmapLoading ? t("generating") : t("regenerate")}
             </Button>
+            {stopButton}
             <Button
               onClick={openInMindElixir}
               disabled={mindElixirLoading}
@@ -516,19 +655,33 @@ export function MindmapDisplay({
           <div className="text-[12px]">
             {t("clickToGenerateArticleMindmap")}
           </div>
+          <EstimateInfo estimate={estimate} />
         </div>
       )}
 
       {mindmapLoading && !mindmapData && (
-        <ReasoningDisplay reasoning={reasoning} />
+        <ReasoningDisplay reasoning={reasoning} progress={progress} />
       )}
 
       {mindmapData && (
         <div className="relative flex-1 w-full border border-gray-300 rounded-[6px] overflow-hidden">
-          {cacheLoaded && (
-            <span className="absolute top-2 right-2 z-10 text-[12px] text-blue-500 bg-blue-50 py-[1px] px-[6px] rounded-full border border-blue-300 h-fit">
-              {t("cached")}
-            </span>
+          <div className="absolute top-2 right-2 z-10 flex gap-1">
+            {incomplete && (
+              <span className="text-[12px] text-amber-600 bg-amber-50 py-[1px] px-[6px] rounded-full border border-amber-300 h-fit">
+                {t("incomplete")}
+              </span>
+            )}
+            {cacheLoaded && (
+              <span className="text-[12px] text-blue-500 bg-blue-50 py-[1px] px-[6px] rounded-full border border-blue-300 h-fit">
+                {t("cached")}
+              </span>
+            )}
+          </div>
+          {result && !mindmapLoading && (
+            <GenerationInfo
+              result={result}
+              className="absolute bottom-2 left-2 z-10"
+            />
           )}
           <MindElixirReact
             data={mindmapData}
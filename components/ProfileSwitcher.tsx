@@ -0,0 +1,87 @@
+import { ChevronDown } from "lucide-react"
+import { useEffect, useState } from "react"
+import { storage } from "@wxt-dev/storage"
+
+import { Button } from "~/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuPortal,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger
+} from "~/components/ui/dropdown-menu"
+import { cn } from "~/lib/utils"
+import type { AIConfig } from "~/utils/ai-service"
+import { t } from "~/utils/i18n"
+import {
+  getProfileLabel,
+  listProfiles,
+  switchProfile
+} from "~/utils/provider-profiles"
+
+interface ProfileSwitcherProps {
+  // 在内容脚本的 Shadow DOM 中使用时，下拉菜单需要挂载到面板内
+  container?: HTMLElement | null
+  className?: string
+}
+
+/**
+ * 快速切换服务商配置；只有一套可用配置时不显示
+ */
+export function ProfileSwitcher({ container, className }: ProfileSwitcherProps) {
+  const [config, setConfig] = useState<AIConfig | null>(null)
+
+  useEffect(() => {
+    storage
+      .getItem<AIConfig>("local:aiConfigV2")
+      .then(setConfig)
+      .catch(() => {})
+    // 设置页或其他面板切换后同步显示
+    return storage.watch<AIConfig>("local:aiConfigV2", setConfig)
+  }, [])
+
+  const options = listProfiles(config)
+  if (options.length < 2) return null
+
+  const activeIndex = options.findIndex((option) => option.active)
+  const active = options[activeIndex]
+
+  return (
+    <DropdownMenu modal={false}>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn("h-6 px-1.5 gap-0.5 text-[11px] max-w-[140px]", className)}
+          title={t("switchProfile")}>
+          <span className="truncate">
+            {active ? getProfileLabel(active) : t("switchProfile")}
+          </span>
+          <ChevronDown className="h-3 w-3 flex-shrink-0" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuPortal container={container}>
+        <DropdownMenuContent align="end">
+          <DropdownMenuRadioGroup
+            value={String(activeIndex)}
+            onValueChange={(value) => {
+              const option = options[Number(value)]
+              switchProfile(option.providerId, option.savedIndex).catch((error) =>
+                console.error("切换配置失败:", error)
+              )
+            }}>
+            {options.map((option, index) => (
+              <DropdownMenuRadioItem
+                key={index}
+                value={String(index)}
+                className="text-xs">
+                {getProfileLabel(option)}
+              </DropdownMenuRadioItem>
+            ))}
+          </DropdownMenuRadioGroup>
+        </DropdownMenuContent>
+      </DropdownMenuPortal>
+    </DropdownMenu>
+  )
+}
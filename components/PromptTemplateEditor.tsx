@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react"
+import { storage } from "@wxt-dev/storage"
+
+import { Button } from "~/components/ui/button"
+import { Label } from "~/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "~/components/ui/select"
+import { t } from "~/utils/i18n"
+import {
+  DEFAULT_PROMPT_TEMPLATES,
+  PROMPT_TASKS,
+  PROMPT_TEMPLATES_STORAGE_KEY,
+  PROMPT_VARIABLES,
+  validateTemplate,
+  type PromptTask,
+  type PromptTemplate,
+  type PromptTemplates
+} from "~/utils/prompt-templates"
+
+const TASK_LABELS: Record<PromptTask, string> = {
+  summary: "promptTaskSummary",
+  videoMindmap: "promptTaskVideoMindmap",
+  articleMindmap: "promptTaskArticleMindmap",
+  chat: "promptTaskChat"
+}
+
+const textareaClassName =
+  "flex w-full rounded-md border border-input bg-background px-3 py-2 font-mono text-xs ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
+
+export function PromptTemplateEditor() {
+  const [templates, setTemplates] = useState<PromptTemplates>({})
+  const [task, setTask] = useState<PromptTask>("summary")
+  const [draft, setDraft] = useState<PromptTemplate>(
+    DEFAULT_PROMPT_TEMPLATES.summary
+  )
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    storage
+      .getItem<PromptTemplates>(PROMPT_TEMPLATES_STORAGE_KEY)
+      .then((saved) => setTemplates(saved || {}))
+      .catch((err) => console.error(t("loadConfigFailed"), err))
+  }, [])
+
+  // 切换任务或加载完成后，编辑区显示该任务当前生效的模板
+  useEffect(() => {
+    setDraft({ ...DEFAULT_PROMPT_TEMPLATES[task], ...templates[task] })
+    setError(null)
+  }, [task, templates])
+
+  const isCustomized = !!templates[task]
+  const hasUserTemplate = DEFAULT_PROMPT_TEMPLATES[task].user !== undefined
+
+  const persist = async (next: PromptTemplates) => {
+    try {
+      await storage.setItem(PROMPT_TEMPLATES_STORAGE_KEY, next)
+      setTemplates(next)
+      return true
+    } catch (err) {
+      console.error(t("saveConfigFailed"), err)
+      setError(t("saveConfigFailed"))
+      return false
+    }
+  }
+
+  const handleSave = async () => {
+    const validationError = validateTemplate(draft)
+    setError(validationError)
+    if (validationError) return
+
+    if (await persist({ ...templates, [task]: draft })) {
+      setSaved(true)
+      setTimeout(() => setSaved(false), 2000)
+    }
+  }
+
+  const handleReset = async () => {
+    const { [task]: _, ...rest } = templates
+    await persist(rest)
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Select
+          value={task}
+          onValueChange={(value) => setTask(value as PromptTask)}>
+          <SelectTrigger className="h-9 text-xs flex-1">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PROMPT_TASKS.map((id) => (
+              <SelectItem key={id} value={id}>
+                {t(TASK_LABELS[id])}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {isCustomized && (
+          <span className="text-[10px] text-blue-500 bg-blue-50 py-[1px] px-[6px] rounded-full border border-blue-300">
+            {t("promptTemplateCustomized")}
+          </span>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <Label htmlFor="prompt-system" className="text-xs text-foreground">
+          {t("systemPrompt")}
+        </Label>
+        <textarea
+          id="prompt-system"
+          rows={10}
+          className={textareaClassName}
+          value={draft.system}
+          onChange={(e) => setDraft({ ...draft, system: e.target.value })}
+        />
+      </div>
+
+      {hasUserTemplate && (
+        <div className="space-y-1">
+          <Label htmlFor="prompt-user" className="text-xs text-foreground">
+            {t("userPrompt")}
+          </Label>
+          <textarea
+            id="prompt-user"
+            rows={6}
+            className={textareaClassName}
+            value={draft.user || ""}
+            onChange={(e) => setDraft({ ...draft, user: e.target.value })}
+          />
+        </div>
+      )}
+
+      <p className="text-[10px] text-muted-foreground">
+        {t("promptTemplateVariables")}{" "}
+        {PROMPT_VARIABLES.map((name) => `{{${name}}}`).join(" ")}
+      </p>
+      {error && <p className="text-xs text-red-500">{error}</p>}
+
+      <div className="flex gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex-1"
+          disabled={!isCustomized}
+          onClick={handleReset}>
+          {t("resetToDefault")}
+        </Button>
+        <Button size="sm" className="flex-1" onClick={handleSave}>
+          {saved ? t("saved") : t("savePromptTemplate")}
+        </Button>
+      </div>
+    </div>
+  )
+}
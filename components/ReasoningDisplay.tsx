@@ -4,11 +4,19 @@ import React, { useEffect, useRef } from "react"
 import { ScrollArea } from "~components/ui/scroll-area"
 import { t } from "~utils/i18n"
 
+// 长内容分段总结的进度
+export interface GenerationProgress {
+  stage: "map" | "reduce"
+  current?: number
+  total?: number
+}
+
 interface ReasoningDisplayProps {
   reasoning: string
+  progress?: GenerationProgress | null
 }
 
-export function ReasoningDisplay({ reasoning }: ReasoningDisplayProps) {
+export function ReasoningDisplay({ reasoning, progress }: ReasoningDisplayProps) {
   const bottomRef = useRef<HTMLDivElement>(null)
 
   useEffect(() => {
@@ -18,6 +26,16 @@ export function ReasoningDisplay({ reasoning }: ReasoningDisplayProps) {
   return (
     <div className="flex-1 flex flex-col items-center justify-center p-4 text-gray-600">
       <div className="mb-4 text-center">
+        {progress && (
+          <div className="mb-2 text-xs text-gray-500">
+            {progress.stage === "map"
+              ? t("processingChunk", [
+                  String(progress.current),
+                  String(progress.total)
+                ])
+              : t("mergingChunks")}
+          </div>
+        )}
         {reasoning ? (
           <div className="animate-pulse flex items-center gap-2 mb-2 justify-center text-sm font-medium text-blue-600">
             <Brain className="w-4 h-4" />
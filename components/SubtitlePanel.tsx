@@ -1,15 +1,29 @@
 import React, { useRef, useState, useEffect } from "react";
-import { GripVertical } from "lucide-react";
+import { ChevronDown, GripVertical } from "lucide-react";
 import { storage } from "@wxt-dev/storage";
 
 import { Button } from "~components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuPortal,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "~components/ui/dropdown-menu";
 import { Toaster } from "~components/ui/sonner";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "~components/ui/tabs";
 import { cn } from "~/lib/utils";
 import { t, getMatchedBrowserLanguage } from "~utils/i18n";
 import { useDraggable } from "~hooks/useDraggable";
+import type { SubtitleTrack } from "~utils/subtitle-utils";
 
+import { ChatDisplay, type ChatGenerateConfig } from "./ChatDisplay";
 import { MindmapDisplay, type MindmapGenerateConfig } from "./MindmapDisplay";
+import { ProfileSwitcher } from "./ProfileSwitcher";
 import { SummaryDisplay, type SummaryGenerateConfig } from "./SummaryDisplay";
 import { ScrollArea } from "./ui/scroll-area";
 
@@ -32,6 +46,12 @@ export interface SubtitlePanelProps {
   onJumpToTime: (time: number) => void;
   platform: "bilibili" | "youtube";
   onClose: () => void;
+  // 视频有多条字幕轨道时显示选择器
+  tracks?: SubtitleTrack[];
+  selectedTrackId?: string | null;
+  // 自动选择的默认轨道，其生成结果沿用不带轨道的缓存键
+  defaultTrackId?: string | null;
+  onSelectTrack?: (trackId: string) => void;
 }
 
 export function SubtitlePanel({
@@ -42,6 +62,10 @@ export function SubtitlePanel({
   onJumpToTime,
   platform,
   onClose,
+  tracks = [],
+  selectedTrackId,
+  defaultTrackId,
+  onSelectTrack,
 }: SubtitlePanelProps) {
   const panelRef = useRef<HTMLDivElement>(null);
   const { onMouseDown, isPositionLoaded } = useDraggable(panelRef, "video_panel_pos");
@@ -49,6 +73,9 @@ export function SubtitlePanel({
   const [isByok, setIsByok] = useState(false);
   const [configuredLanguage, setConfiguredLanguage] = useState<string | null>(null);
   const currentUrl = window.location.href;
+  const selectedTrack = tracks.find((track) => track.id === selectedTrackId);
+  const sourceTracks = tracks.filter((track) => !track.translated);
+  const translatedTracks = tracks.filter((track) => track.translated);
 
   // Detect BYOK and get configured reply language
   useEffect(() => {
@@ -69,26 +96,32 @@ export function SubtitlePanel({
     }).catch(() => {});
   }, []);
 
-  // 获取思维导图缓存键
-  const getMindmapCacheKey = () => {
-    if (platform === "bilibili" && videoInfo?.bvid) {
-      return `mindmap_${videoInfo.bvid}`;
-    } else if (platform === "youtube" && videoInfo?.videoId) {
-      return `mindmap_${videoInfo.videoId}`;
-    }
-    return undefined;
+  // 分P视频的第2P起在缓存键中加上分P序号，第1P沿用原来的缓存键
+  const getPageSuffix = () => {
+    return videoInfo?.page && videoInfo.page > 1 ? `_p${videoInfo.page}` : "";
   };
 
-  // 获取AI总结缓存键
-  const getSummaryCacheKey = () => {
+  // 选择了默认轨道以外的字幕轨道时，在缓存键中加上轨道 ID，避免不同语言的结果互相覆盖
+  const getTrackSuffix = () => {
+    return selectedTrackId && selectedTrackId !== defaultTrackId
+      ? `_${selectedTrackId}`
+      : "";
+  };
+
+  // 生成缓存键：视频 ID、分P序号和字幕轨道
+  const getCacheKey = (prefix: string) => {
     if (platform === "bilibili" && videoInfo?.bvid) {
-      return `summary_${videoInfo.bvid}`;
+      return `${prefix}_${videoInfo.bvid}${getPageSuffix()}${getTrackSuffix()}`;
     } else if (platform === "youtube" && videoInfo?.videoId) {
-      return `summary_${videoInfo.videoId}`;
+      return `${prefix}_${videoInfo.videoId}${getTrackSuffix()}`;
     }
     return undefined;
   };
 
+  const summaryCacheKey = getCacheKey("summary");
+  const mindmapCacheKey = getCacheKey("mindmap");
+  const chatCacheKey = getCacheKey("chat");
+
   // 格式化时间
   const formatTime = (seconds: number): string => {
     const minutes = Math.floor(seconds / 60);
@@ -126,10 +159,33 @@ export function SubtitlePanel({
       .trim();
   };
 
+  // 获取带时间戳的字幕片段，供后台按时间边界分段总结
+  const getSubtitleSegments = () => {
+    return subtitles.map((subtitle) => ({
+      start: getSubtitleTime(subtitle).start,
+      text: getSubtitleContent(subtitle),
+    }));
+  };
+
+  // 获取带时间戳的字幕文本，便于问答时引用具体位置
+  const getTimestampedSubtitlesText = () => {
+    if (subtitles.length === 0) return null;
+    return subtitles
+      .map(
+        (subtitle) =>
+          `[${formatTime(getSubtitleTime(subtitle).start)}] ${getSubtitleContent(subtitle).trim()}`,
+      )
+      .join("\n");
+  };
+
   // AI总结生成配置
   const summaryGenerateConfig: SummaryGenerateConfig = {
     getContent: getAllSubtitlesText,
-    additionalData: {},
+    getTitle: () => videoInfo?.title || "",
+    additionalData: {
+      url: currentUrl,
+      segments: getSubtitleSegments(),
+    },
   };
 
   // 思维导图生成配置
@@ -142,6 +198,16 @@ export function SubtitlePanel({
       // for backend caching (only used by Mind Elixir model, stripped otherwise)
       videoUrl: currentUrl,
       language: configuredLanguage,
+      segments: getSubtitleSegments(),
+    },
+  };
+
+  // 问答配置
+  const chatGenerateConfig: ChatGenerateConfig = {
+    getContent: getTimestampedSubtitlesText,
+    getTitle: () => videoInfo?.title || "",
+    additionalData: {
+      url: currentUrl,
     },
   };
 
@@ -159,6 +225,10 @@ export function SubtitlePanel({
               : t("youtubeSubtitle")}
           </h3>
           <div className="flex items-center gap-1">
+            <ProfileSwitcher
+              container={panelRef.current}
+              className="text-gray-500"
+            />
             <Button
               variant="ghost"
               size="sm"
@@ -196,6 +266,66 @@ export function SubtitlePanel({
             {videoInfo.title}
           </div>
         )}
+        {tracks.length > 1 && onSelectTrack && (
+          <div className="flex items-center gap-1 mt-[4px] text-[12px] text-gray-600">
+            <span className="select-none">{t("subtitleTrack")}</span>
+            <DropdownMenu modal={false}>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 px-1.5 gap-0.5 text-[12px] max-w-[220px]"
+                  disabled={loading}
+                >
+                  <span className="truncate">
+                    {selectedTrack
+                      ? selectedTrack.translated
+                        ? `${selectedTrack.label} · ${t("autoTranslate")}`
+                        : selectedTrack.label
+                      : t("subtitleTrack")}
+                  </span>
+                  <ChevronDown className="h-3 w-3 flex-shrink-0" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuPortal container={panelRef.current}>
+                <DropdownMenuContent align="start">
+                  <DropdownMenuRadioGroup
+                    value={selectedTrackId || ""}
+                    onValueChange={onSelectTrack}
+                  >
+                    {sourceTracks.map((track) => (
+                      <DropdownMenuRadioItem
+                        key={track.id}
+                        value={track.id}
+                        className="text-xs"
+                      >
+                        {track.label}
+                      </DropdownMenuRadioItem>
+                    ))}
+                    {translatedTracks.length > 0 && (
+                      <DropdownMenuSub>
+                        <DropdownMenuSubTrigger className="text-xs">
+                          {t("autoTranslate")}
+                        </DropdownMenuSubTrigger>
+                        <DropdownMenuSubContent className="max-h-[300px] overflow-y-auto">
+                          {translatedTracks.map((track) => (
+                            <DropdownMenuRadioItem
+                              key={track.id}
+                              value={track.id}
+                              className="text-xs"
+                            >
+                              {track.label}
+                            </DropdownMenuRadioItem>
+                          ))}
+                        </DropdownMenuSubContent>
+                      </DropdownMenuSub>
+                    )}
+                  </DropdownMenuRadioGroup>
+                </DropdownMenuContent>
+              </DropdownMenuPortal>
+            </DropdownMenu>
+          </div>
+        )}
       </div>
 
       <Tabs
@@ -203,10 +333,11 @@ export function SubtitlePanel({
         onValueChange={setActiveTab}
         className="flex-1 flex flex-col overflow-hidden"
       >
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="subtitles">{t("subtitles")}</TabsTrigger>
           <TabsTrigger value="summary">{t("aiSummary")}</TabsTrigger>
           <TabsTrigger value="mindmap">{t("mindmap")}</TabsTrigger>
+          <TabsTrigger value="chat">{t("chat")}</TabsTrigger>
         </TabsList>
 
         <TabsContent
@@ -282,9 +413,12 @@ export function SubtitlePanel({
             activeTab !== "summary" && "hidden",
           )}
         >
+          {/* 切换字幕轨道时重新挂载，避免显示其他轨道的结果 */}
           <SummaryDisplay
+            key={summaryCacheKey}
             generateConfig={summaryGenerateConfig}
-            cacheKey={getSummaryCacheKey()}
+            cacheKey={summaryCacheKey}
+            show={activeTab === "summary"}
           />
         </TabsContent>
 
@@ -297,15 +431,31 @@ export function SubtitlePanel({
           )}
         >
           <MindmapDisplay
+            key={mindmapCacheKey}
             panelRef={panelRef}
             generateConfig={mindmapGenerateConfig}
-            cacheKey={getMindmapCacheKey()}
+            cacheKey={mindmapCacheKey}
             show={activeTab === "mindmap"}
             videoUrl={currentUrl}
             isByok={isByok}
             language={configuredLanguage}
           />
         </TabsContent>
+
+        <TabsContent
+          value="chat"
+          forceMount={true}
+          className={cn(
+            "overflow-hidden mt-2",
+            activeTab !== "chat" && "hidden",
+          )}
+        >
+          <ChatDisplay
+            key={chatCacheKey}
+            generateConfig={chatGenerateConfig}
+            cacheKey={chatCacheKey}
+          />
+        </TabsContent>
       </Tabs>
       <Toaster />
     </div>
@@ -1,12 +1,19 @@
-import { Brain, Check, Copy } from "lucide-react"
+import { Brain, Check, Copy, Square } from "lucide-react"
 import React, { useEffect, useRef, useState } from "react"
 import { toast } from "sonner"
 import { storage } from "@wxt-dev/storage"
 import { Button } from "~/components/ui/button"
 import { ScrollArea } from "~/components/ui/scroll-area"
+import { useGenerationEstimate } from "~/hooks/useGenerationEstimate"
 import { t } from "~/utils/i18n"
+import type { TokenUsage } from "~/utils/token-estimator"
 
-import { ReasoningDisplay } from "./ReasoningDisplay"
+import {
+  EstimateInfo,
+  GenerationInfo,
+  type GenerationResult
+} from "./GenerationInfo"
+import { ReasoningDisplay, type GenerationProgress } from "./ReasoningDisplay"
 import { SimpleMarkdown } from "./SimpleMarkdown"
 
 export interface SummaryGenerateConfig {
@@ -21,6 +28,7 @@ interface SummaryDisplayProps {
   generateButtonText?: string
   noSummaryText?: string
   generatePromptText?: string
+  show?: boolean
 }
 
 export function SummaryDisplay({
@@ -28,13 +36,19 @@ export function SummaryDisplay({
   cacheKey,
   generateButtonText,
   noSummaryText,
-  generatePromptText
+  generatePromptText,
+  show = true
 }: SummaryDisplayProps) {
   const [markdownContent, setMarkdownContent] = useState<string>("")
   const [aiLoading, setAiLoading] = useState(false)
   const [cacheLoaded, setCacheLoaded] = useState(false)
   const [isCopied, setIsCopied] = useState(false)
   const [reasoning, setReasoning] = useState("")
+  const [progress, setProgress] = useState<GenerationProgress | null>(null)
+  // 实际生成结果的服务商（可能是备用服务商）及 Token 用量
+  const [result, setResult] = useState<GenerationResult | null>(null)
+  // 用户中途停止生成，内容不完整
+  const [incomplete, setIncomplete] = useState(false)
 
   const portRef = useRef<chrome.runtime.Port | null>(null)
   const scrollAreaRef = useRef<HTMLDivElement>(null)
@@ -47,11 +61,21 @@ export function SummaryDisplay({
       const cached = await storage.getItem<{
         content: string
         timestamp: number
+        provider?: string
+        usage?: TokenUsage | null
+        cost?: number | null
+        incomplete?: boolean
       }>(`local:${cacheKey}`)
       if (cached && cached.content) {
         const isExpired = Date.now() - cached.timestamp > 24 * 60 * 60 * 1000 // 24小时过期
         if (!isExpired) {
           setMarkdownContent(cached.content)
+          setIncomplete(!!cached.incomplete)
+          setResult({
+            provider: cached.provider,
+            usage: cached.usage,
+            cost: cached.cost
+          })
           setCacheLoaded(true)
         }
       }
@@ -60,21 +84,6 @@ export function SummaryDisplay({
     }
   }
 
-  // 保存缓存数据
-  const saveCacheData = async (content: string) => {
-    if (!cacheKey) return
-
-    try {
-      const cacheData = {
-        content,
-        timestamp: Date.now()
-      }
-      await storage.setItem(`local:${cacheKey}`, cacheData)
-    } catch (error) {
-      console.error("保存缓存失败:", error)
-    }
-  }
-
   const handleCopy = () => {
     if (!markdownContent) return
     navigator.clipboard.writeText(markdownContent)
@@ -113,6 +122,9 @@ export function SummaryDisplay({
     setAiLoading(true)
     setMarkdownContent("")
     setReasoning("")
+    setProgress(null)
+    setResult(null)
+    setIncomplete(false)
     contentRef.current = ""
     setCacheLoaded(false)
 
@@ -120,45 +132,124 @@ export function SummaryDisplay({
 
     const port = chrome.runtime.connect({ name: "AI_STREAM" })
     portRef.current = port
+    listenToPort(port)
 
+    const messageData: any = {
+      action: "summarizeSubtitlesStream",
+      ...generateConfig.additionalData,
+      subtitles: content,
+      title: generateConfig.getTitle?.(),
+      // 带缓存键时后台作为任务运行，面板关闭后仍会完成并写入缓存
+      cacheKey
+    }
+    port.postMessage(messageData)
+  }
+
+  // 处理后台推送的生成进度（新生成或重新连接到运行中的任务）
+  const listenToPort = (port: chrome.runtime.Port) => {
     port.onMessage.addListener((msg) => {
-      if (msg.type === "chunk") {
+      if (msg.type === "snapshot") {
+        setAiLoading(true)
+        setCacheLoaded(false)
+        setIncomplete(false)
+        setResult(null)
+        setMarkdownContent(msg.content || "")
+        setReasoning(msg.reasoning || "")
+        setProgress(msg.progress)
+      } else if (msg.type === "noJob") {
+        port.disconnect()
+        if (portRef.current === port) portRef.current = null
+      } else if (msg.type === "interrupted") {
+        port.disconnect()
+        if (portRef.current === port) portRef.current = null
+        loadCacheData()
+        toast.info(t("generationInterrupted"))
+      } else if (msg.type === "chunk") {
         if (msg.reasoning) {
           setReasoning((prev) => prev + msg.reasoning)
         }
         if (msg.content) {
           setReasoning("")
+          setProgress(null)
           const newChunk = msg.content || ""
           setMarkdownContent((prev) => prev + newChunk)
         }
+      } else if (msg.type === "progress") {
+        setReasoning("")
+        setProgress({
+          stage: msg.stage,
+          current: msg.current,
+          total: msg.total
+        })
       } else if (msg.type === "done") {
         setAiLoading(false)
         setReasoning("")
-        saveCacheData(contentRef.current)
+        setProgress(null)
+        const generationResult: GenerationResult = {
+          provider: msg.provider,
+          usage: msg.usage,
+          cost: msg.cost
+        }
+        setResult(generationResult)
         toast.success(t("aiSummaryGenerated"))
         port.disconnect()
         portRef.current = null
       } else if (msg.type === "error") {
         setAiLoading(false)
+        setProgress(null)
         toast.error(msg.error || t("summaryFailed"))
         port.disconnect()
         portRef.current = null
       }
     })
+  }
 
-    const messageData: any = {
-      action: "summarizeSubtitlesStream",
-      ...generateConfig.additionalData,
-      subtitles: content
+  // 停止生成：后台中止请求，已生成的内容保留并以不完整状态写入缓存
+  const stopGeneration = () => {
+    if (!portRef.current) return
+    if (cacheKey) {
+      portRef.current.postMessage({ action: "cancelJob", cacheKey })
     }
-    port.postMessage(messageData)
+    portRef.current.disconnect()
+    portRef.current = null
+    setAiLoading(false)
+    setReasoning("")
+    setProgress(null)
+    if (contentRef.current) {
+      setIncomplete(true)
+    }
+    toast.info(t("generationStopped"))
   }
 
-  // 加载缓存数据
+  // 加载缓存数据，并重新连接到该内容在后台运行中的任务
   useEffect(() => {
-    loadCacheData()
+    let cancelled = false
+    // 先加载缓存再连接，避免缓存内容覆盖任务的进度快照
+    loadCacheData().then(() => {
+      if (cancelled || !cacheKey) return
+      const port = chrome.runtime.connect({ name: "AI_STREAM" })
+      portRef.current = port
+      listenToPort(port)
+      port.postMessage({ action: "attachJob", cacheKey })
+    })
+
+    return () => {
+      cancelled = true
+      // 只断开监听，后台任务继续运行
+      portRef.current?.disconnect()
+      portRef.current = null
+      setAiLoading(false)
+    }
   }, [cacheKey])
 
+  // 生成前估算 Token 与费用
+  const estimate = useGenerationEstimate(
+    "summarizeSubtitlesStream",
+    generateConfig?.getContent,
+    generateConfig?.getTitle,
+    show && !markdownContent && !aiLoading
+  )
+
   return (
     <div className="flex-1 flex flex-col h-full">
       <div className="flex mb-2 gap-2 justify-between">
@@ -180,6 +271,16 @@ export function SummaryDisplay({
               ? t("regenerate")
               : generateButtonText || t("generateAiSummary")}
         </Button>
+        {aiLoading && (
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={stopGeneration}
+            className="px-3 shrink-0"
+            title={t("stopGeneration")}>
+            <Square className="h-4 w-4" />
+          </Button>
+        )}
         {markdownContent && (
           <Button
             size="sm"
@@ -199,24 +300,35 @@ export function SummaryDisplay({
         <div className="text-center py-[40px] px-[20px] text-gray-600">
           <div className="mb-[12px]">{noSummaryText || t("noAiSummary")}</div>
           <div className="text-[12px]">{generatePromptText || t("clickToGenerateVideoSummary")}</div>
+          <EstimateInfo estimate={estimate} />
         </div>
       )}
 
       {aiLoading && !markdownContent && (
-        <ReasoningDisplay reasoning={reasoning} />
+        <ReasoningDisplay reasoning={reasoning} progress={progress} />
       )}
 
       {(markdownContent || (aiLoading && markdownContent)) && (
         <div className="flex-1 overflow-auto">
           <ScrollArea className="h-full" ref={scrollAreaRef}>
             <div className="relative prose p-[12px] border border-gray-300 rounded-[6px]">
-              {cacheLoaded && (
-                <span className="absolute top-2 right-2 z-10 text-[12px] text-blue-500 bg-blue-50 py-[1px] px-[6px] rounded-full border border-blue-300 h-fit">
-                  {t("cached")}
-                </span>
-              )}
+              <div className="absolute top-2 right-2 z-10 flex gap-1">
+                {incomplete && (
+                  <span className="text-[12px] text-amber-600 bg-amber-50 py-[1px] px-[6px] rounded-full border border-amber-300 h-fit">
+                    {t("incomplete")}
+                  </span>
+                )}
+                {cacheLoaded && (
+                  <span className="text-[12px] text-blue-500 bg-blue-50 py-[1px] px-[6px] rounded-full border border-blue-300 h-fit">
+                    {t("cached")}
+                  </span>
+                )}
+              </div>
               <SimpleMarkdown content={markdownContent} />
             </div>
+            {result && !aiLoading && (
+              <GenerationInfo result={result} className="mt-1 text-right" />
+            )}
           </ScrollArea>
         </div>
       )}
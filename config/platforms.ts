@@ -42,14 +42,21 @@ export const PLATFORMS: Record<string, PlatformConfig> = {
   youtube: {
     name: "YouTube",
     baseUrl: "https://www.youtube.com",
-    videoUrlPattern: /[?&]v=([^&]+)/,
+    // 普通视频（含移动版）、Shorts、直播、嵌入播放器、YouTube Music 和 youtu.be 短链接
+    videoUrlPattern:
+      /^https?:\/\/(?:(?:(?:www|m|music)\.)?youtube\.com\/(?:watch\?(?:[^#]*&)?v=|shorts\/|live\/|embed\/)|(?:www\.)?youtube-nocookie\.com\/embed\/|youtu\.be\/)([\w-]{11})/,
     apiEndpoints: {
       // YouTube使用内嵌的播放器数据，不需要外部API
     },
     selectors: {
       videoContainer: ["#movie_player", ".html5-video-player"],
       videoElement: "video",
-      titleElement: ["h1.ytd-watch-metadata yt-formatted-string", "h1.title"]
+      titleElement: [
+        "h1.ytd-watch-metadata yt-formatted-string",
+        "h1.title",
+        "ytmusic-player-bar .title",
+        ".ytp-title-link"
+      ]
     },
     features: {
       hasLanguageSelection: true,
@@ -132,10 +139,15 @@ export const LANGUAGE_CODES: Record<string, string[]> = {
   hi: ["hi", "hi-IN"]
 }
 
+// 判断URL是否属于平台：主站页面或可识别的视频链接（如 youtu.be 短链接）
+const matchesPlatform = (url: string, config: PlatformConfig): boolean => {
+  return url.includes(config.baseUrl) || config.videoUrlPattern.test(url)
+}
+
 // 获取平台配置
 export const getPlatformConfig = (url: string): PlatformConfig | null => {
   for (const [key, config] of Object.entries(PLATFORMS)) {
-    if (url.includes(config.baseUrl)) {
+    if (matchesPlatform(url, config)) {
       return config
     }
   }
@@ -173,13 +185,13 @@ export const getPreferredLanguage = (
 
 // 验证URL是否为支持的平台
 export const isSupportedPlatform = (url: string): boolean => {
-  return Object.values(PLATFORMS).some((config) => url.includes(config.baseUrl))
+  return Object.values(PLATFORMS).some((config) => matchesPlatform(url, config))
 }
 
 // 获取当前平台名称
 export const getCurrentPlatform = (url: string): string | null => {
   for (const [key, config] of Object.entries(PLATFORMS)) {
-    if (url.includes(config.baseUrl)) {
+    if (matchesPlatform(url, config)) {
       return key
     }
   }
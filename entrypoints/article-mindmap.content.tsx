@@ -1,6 +1,7 @@
 import ReactDOM from "react-dom/client"
 import { useEffect, useRef, useState } from "react"
 import { cn } from "~/lib/utils"
+import { ChatDisplay, type ChatGenerateConfig } from "~/components/ChatDisplay"
 import {
   MindmapDisplay,
   type MindmapGenerateConfig
@@ -9,6 +10,7 @@ import {
   SummaryDisplay,
   type SummaryGenerateConfig
 } from "~/components/SummaryDisplay"
+import { ProfileSwitcher } from "~/components/ProfileSwitcher"
 import { Button } from "~/components/ui/button"
 import { Toaster } from "~/components/ui/sonner"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "~/components/ui/tabs"
@@ -51,7 +53,8 @@ function ArticleMindmapPanelContent({
   // AI总结生成配置
   const summaryGenerateConfig: SummaryGenerateConfig = {
     getContent: getArticleContent,
-    additionalData: {}
+    getTitle: () => articleInfo?.title || "",
+    additionalData: { url: articleInfo?.url }
   }
 
   // 思维导图生成配置
@@ -59,7 +62,14 @@ function ArticleMindmapPanelContent({
     action: "generateArticleMindmapStream",
     getContent: getArticleContent,
     getTitle: () => articleInfo?.title || "",
-    additionalData: {}
+    additionalData: { url: articleInfo?.url }
+  }
+
+  // 问答配置
+  const chatGenerateConfig: ChatGenerateConfig = {
+    getContent: getArticleContent,
+    getTitle: () => articleInfo?.title || "",
+    additionalData: { url: articleInfo?.url }
   }
 
   // 获取AI总结缓存键
@@ -74,6 +84,12 @@ function ArticleMindmapPanelContent({
     return `mindmap_${btoa(articleInfo.url)}`
   }
 
+  // 获取问答对话缓存键
+  const getChatCacheKey = () => {
+    if (!articleInfo) return undefined
+    return `chat_${btoa(articleInfo.url)}`
+  }
+
   return (
     <div
       ref={panelRef}
@@ -85,6 +101,10 @@ function ArticleMindmapPanelContent({
             {t("articleAssistant")}
           </h3>
           <div className="flex items-center gap-1">
+            <ProfileSwitcher
+              container={panelRef.current}
+              className="text-gray-500"
+            />
             <Button
               variant="ghost"
               size="sm"
@@ -123,9 +143,10 @@ function ArticleMindmapPanelContent({
         value={activeTab}
         onValueChange={setActiveTab}
         className="flex-1 flex flex-col overflow-hidden">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-3">
           <TabsTrigger value="summary">{t("aiSummary")}</TabsTrigger>
           <TabsTrigger value="mindmap">{t("mindmap")}</TabsTrigger>
+          <TabsTrigger value="chat">{t("chat")}</TabsTrigger>
         </TabsList>
 
         <TabsContent 
@@ -140,6 +161,7 @@ function ArticleMindmapPanelContent({
             cacheKey={getSummaryCacheKey()}
             noSummaryText={t("noAiSummary")}
             generatePromptText={t("clickToGenerateArticleSummary")}
+            show={activeTab === "summary"}
           />
         </TabsContent>
 
@@ -157,6 +179,19 @@ function ArticleMindmapPanelContent({
             show={activeTab === "mindmap"}
           />
         </TabsContent>
+
+        <TabsContent
+          value="chat"
+          forceMount={true}
+          className={cn(
+            "overflow-hidden mt-2",
+            activeTab !== "chat" && "hidden"
+          )}>
+          <ChatDisplay
+            generateConfig={chatGenerateConfig}
+            cacheKey={getChatCacheKey()}
+          />
+        </TabsContent>
       </Tabs>
       <Toaster />
     </div>
@@ -216,7 +251,10 @@ export default defineContentScript({
   excludeMatches: [
     "https://www.youtube.com/*",
     "https://www.bilibili.com/*",
-    "https://youtube.com/*"
+    "https://youtube.com/*",
+    "https://m.youtube.com/*",
+    "https://music.youtube.com/*",
+    "https://www.youtube-nocookie.com/*"
   ],
   async main(ctx) {
     console.log("Article content script main started");
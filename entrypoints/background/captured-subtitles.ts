@@ -0,0 +1,60 @@
+/**
+ * 捕获的 YouTube 字幕请求
+ * 播放器发出的 timedtext 请求带有 pot 参数，内容脚本需要用它加载字幕；
+ * 按标签页和视频 ID 分别保存，避免多个标签页或切换视频后串用其他视频的字幕
+ */
+import { extractVideoId } from "~/config/platforms"
+
+// tabId -> videoId -> 字幕请求 URL
+const capturedUrls = new Map<number, Map<string, string>>()
+
+/**
+ * 保存标签页中捕获的字幕请求，返回对应的视频 ID；无法识别视频时不保存
+ */
+export function saveCapturedSubtitleUrl(
+  tabId: number,
+  url: string
+): string | null {
+  const videoId = new URL(url).searchParams.get("v")
+  if (!videoId) return null
+
+  let tabUrls = capturedUrls.get(tabId)
+  if (!tabUrls) {
+    tabUrls = new Map()
+    capturedUrls.set(tabId, tabUrls)
+  }
+  tabUrls.set(videoId, url)
+  return videoId
+}
+
+export function getCapturedSubtitleUrl(
+  tabId: number,
+  videoId: string
+): string | null {
+  return capturedUrls.get(tabId)?.get(videoId) ?? null
+}
+
+/**
+ * 清除标签页的记录；指定 videoId 时只清除该视频
+ */
+export function clearCapturedSubtitleUrls(tabId: number, videoId?: string) {
+  if (videoId) {
+    capturedUrls.get(tabId)?.delete(videoId)
+  } else {
+    capturedUrls.delete(tabId)
+  }
+}
+
+/**
+ * 标签页导航后只保留当前页面视频的记录
+ */
+export function pruneCapturedSubtitleUrls(tabId: number, pageUrl: string) {
+  const tabUrls = capturedUrls.get(tabId)
+  if (!tabUrls) return
+
+  const videoId = extractVideoId(pageUrl, "youtube")
+  for (const id of tabUrls.keys()) {
+    if (id !== videoId) tabUrls.delete(id)
+  }
+  if (tabUrls.size === 0) capturedUrls.delete(tabId)
+}
@@ -0,0 +1,249 @@
+/**
+ * 长文本分段工具
+ * 将超长字幕/文章按句子或时间边界切分，供分段总结（map-reduce）使用
+ */
+import { estimateTokens } from "~/utils/token-estimator"
+import { formatTime } from "~/utils/subtitle-utils"
+
+// 单段最大字符数，超过该长度的内容会被切分为多段
+export const CHUNK_MAX_CHARS = 10000
+
+export interface TranscriptSegment {
+  start: number
+  text: string
+}
+
+export interface TranscriptChunk {
+  text: string
+  start?: number
+  end?: number
+}
+
+const SENTENCE_END = /[。！？.!?]$/
+
+// 按句末标点切分纯文本
+const splitSentences = (text: string): string[] =>
+  text
+    .split(/(?<=[。！？.!?])\s*/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 0)
+
+// 单句仍然超长时直接按长度硬切
+const hardSplit = (text: string, maxChars: number): string[] => {
+  const parts: string[] = []
+  for (let i = 0; i < text.length; i += maxChars) {
+    parts.push(text.slice(i, i + maxChars))
+  }
+  return parts
+}
+
+/**
+ * 按句子边界切分纯文本
+ */
+const splitText = (text: string, maxChars: number): TranscriptChunk[] => {
+  const chunks: TranscriptChunk[] = []
+  let current = ""
+
+  for (const sentence of splitSentences(text)) {
+    const pieces =
+      sentence.length > maxChars ? hardSplit(sentence, maxChars) : [sentence]
+    for (const piece of pieces) {
+      if (current && current.length + piece.length + 1 > maxChars) {
+        chunks.push({ text: current })
+        current = ""
+      }
+      current = current ? `${current} ${piece}` : piece
+    }
+  }
+  if (current) chunks.push({ text: current })
+
+  return chunks
+}
+
+/**
+ * 按字幕时间轴切分，尽量在句末处断开，并记录每段的起止时间
+ */
+const splitSegments = (
+  segments: TranscriptSegment[],
+  maxChars: number
+): TranscriptChunk[] => {
+  const chunks: TranscriptChunk[] = []
+  let buffer: TranscriptSegment[] = []
+  let length = 0
+  // 缓冲区中最后一个句末位置，用于优先在句子结束处切分
+  let lastSentenceEnd = -1
+
+  const flush = (count: number) => {
+    const taken = buffer.slice(0, count)
+    chunks.push({
+      text: taken.map((segment) => segment.text).join(" "),
+      start: taken[0].start,
+      end: buffer[count]?.start ?? taken[taken.length - 1].start
+    })
+    buffer = buffer.slice(count)
+    length = buffer.reduce((sum, segment) => sum + segment.text.length + 1, 0)
+    lastSentenceEnd = -1
+    buffer.forEach((segment, index) => {
+      if (SENTENCE_END.test(segment.text)) lastSentenceEnd = index
+    })
+  }
+
+  for (const segment of segments) {
+    const text = segment.text.trim()
+    if (!text) continue
+
+    if (buffer.length > 0 && length + text.length + 1 > maxChars) {
+      // 句末位置太靠前时直接整体切分，避免产生过短的段落
+      const cutAt =
+        lastSentenceEnd >= 0 && lastSentenceEnd >= buffer.length / 2
+          ? lastSentenceEnd + 1
+          : buffer.length
+      flush(cutAt)
+    }
+
+    buffer.push({ start: segment.start, text })
+    length += text.length + 1
+    if (SENTENCE_END.test(text)) lastSentenceEnd = buffer.length - 1
+  }
+  if (buffer.length > 0) flush(buffer.length)
+
+  return chunks
+}
+
+/**
+ * 将长内容切分为多个片段
+ * @param text 完整文本
+ * @param segments 带时间戳的字幕片段（可选，提供时按时间边界切分）
+ * @param maxChars 单段最大字符数
+ */
+export function splitTranscript(
+  text: string,
+  segments?: TranscriptSegment[],
+  maxChars: number = CHUNK_MAX_CHARS
+): TranscriptChunk[] {
+  if (text.length <= maxChars) {
+    return [{ text }]
+  }
+
+  if (Array.isArray(segments) && segments.length > 0) {
+    return splitSegments(segments, maxChars)
+  }
+
+  return splitText(text, maxChars)
+}
+
+/**
+ * 生成片段描述，例如 "2/5 (10:00 - 20:00)"
+ */
+export function describeChunk(
+  chunk: TranscriptChunk,
+  index: number,
+  total: number
+): string {
+  const position = `${index + 1}/${total}`
+  if (chunk.start === undefined || chunk.end === undefined) {
+    return position
+  }
+  return `${position} (${formatTime(chunk.start)} - ${formatTime(chunk.end)})`
+}
+
+// 按问题挑选参考内容时每个片段的最大字符数
+const SELECT_BLOCK_CHARS = 1000
+// 未被选中的连续片段在保留内容中的占位
+export const OMITTED_MARKER = "……（此处省略了部分内容）……"
+
+const CJK_CHAR = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/
+const CJK_RUN = new RegExp(`${CJK_CHAR.source}+`, "g")
+
+// 提取用于匹配的词：英文等按单词，中日韩文字按相邻两字
+const getTerms = (text: string): string[] => {
+  const lower = text.toLowerCase()
+  const words = lower.match(/[\p{L}\p{N}]{2,}/gu) || []
+  const bigrams = (lower.match(CJK_RUN) || []).flatMap((run) =>
+    run.length === 1
+      ? [run]
+      : Array.from({ length: run.length - 1 }, (_, i) => run.slice(i, i + 2))
+  )
+  return [
+    ...new Set([...words.filter((word) => !CJK_CHAR.test(word)), ...bigrams])
+  ]
+}
+
+// 按行（无换行时按句子）把内容合并为连续的片段
+const splitBlocks = (text: string, separator: string): string[] => {
+  const units = (separator === "\n" ? text.split("\n") : splitSentences(text))
+    .flatMap((unit) =>
+      unit.length > SELECT_BLOCK_CHARS
+        ? hardSplit(unit, SELECT_BLOCK_CHARS)
+        : [unit]
+    )
+    .filter((unit) => unit.trim())
+
+  const blocks: string[] = []
+  let current = ""
+  for (const unit of units) {
+    if (current && current.length + unit.length + 1 > SELECT_BLOCK_CHARS) {
+      blocks.push(current)
+      current = ""
+    }
+    current = current ? `${current}${separator}${unit}` : unit
+  }
+  if (current) blocks.push(current)
+  return blocks
+}
+
+/**
+ * 内容超过指定 Token 数时，把内容切分为连续的片段，按与问题的相关度选取片段，
+ * 按原顺序拼接，并在省略处插入标记
+ * @param query 用户的问题，用于计算片段的相关度
+ * @returns 保留的内容，以及是否有内容被省略
+ */
+export function selectRelevantContent(
+  text: string,
+  query: string,
+  maxTokens: number
+): { text: string; trimmed: boolean } {
+  if (estimateTokens(text) <= maxTokens) {
+    return { text, trimmed: false }
+  }
+
+  const separator = text.includes("\n") ? "\n" : " "
+  const blocks = splitBlocks(text, separator)
+  const lowerBlocks = blocks.map((block) => block.toLowerCase())
+
+  // 出现在越少片段中的词越能区分片段，权重越高
+  const weights = getTerms(query).map((term) => {
+    const count = lowerBlocks.filter((block) => block.includes(term)).length
+    return { term, weight: count ? Math.log(1 + blocks.length / count) : 0 }
+  })
+  const scores = lowerBlocks.map((block) =>
+    weights.reduce(
+      (sum, { term, weight }) => (block.includes(term) ? sum + weight : sum),
+      0
+    )
+  )
+
+  // 相关度相同时优先保留靠前的片段
+  const ranked = blocks
+    .map((_, index) => index)
+    .sort((a, b) => scores[b] - scores[a] || a - b)
+  const markerTokens = estimateTokens(OMITTED_MARKER)
+  const selected = new Set<number>()
+  let used = 0
+  for (const index of ranked) {
+    const tokens = estimateTokens(blocks[index]) + markerTokens
+    if (used + tokens > maxTokens) continue
+    selected.add(index)
+    used += tokens
+  }
+
+  const parts: string[] = []
+  blocks.forEach((block, index) => {
+    if (selected.has(index)) {
+      parts.push(block)
+    } else if (parts[parts.length - 1] !== OMITTED_MARKER) {
+      parts.push(OMITTED_MARKER)
+    }
+  })
+  return { text: parts.join(separator), trimmed: true }
+}
@@ -1,8 +1,58 @@
-import { PROMPTS } from "./prompts"
-import { storage } from "@wxt-dev/storage"
+import { PROMPTS, buildTaskPrompts } from "./prompts"
+import {
+  describeChunk,
+  splitTranscript,
+  selectRelevantContent,
+  type TranscriptChunk
+} from "./chunking"
+import {
+  attachPort,
+  cancelJob,
+  detachPort,
+  emitToJob,
+  finishJob,
+  getJob,
+  recoverInterruptedJobs,
+  saveJobResult,
+  startJob,
+  takeInterruptedJob
+} from "./jobs"
+import {
+  clearCapturedSubtitleUrls,
+  getCapturedSubtitleUrl,
+  pruneCapturedSubtitleUrls,
+  saveCapturedSubtitleUrl
+} from "./captured-subtitles"
+import { createMockResponse } from "./mock"
+import { SSEDecoder } from "./sse"
 import { t, getMatchedBrowserLanguage } from "~/utils/i18n"
-import type { AIConfig } from "~/utils/ai-service"
-import { DEFAULT_MIND_ELIXIR_PROVIDER } from "~/utils/ai-service"
+import type {
+  AIConfig,
+  AITask,
+  ChatMessage,
+  ConnectionTestResult,
+  GenerationSettings,
+  ProviderConfig
+} from "~/utils/ai-service"
+import {
+  ACTION_TASKS,
+  AZURE_DEFAULT_API_VERSION,
+  DEFAULT_MIND_ELIXIR_PROVIDER,
+  DEFAULT_THINKING_BUDGET,
+  isLocalProvider
+} from "~/utils/ai-service"
+import { loadAIConfig } from "~/utils/api-key-vault"
+import { fetchWithRetry } from "~/utils/retry"
+import {
+  EXPECTED_CHUNK_OUTPUT_TOKENS,
+  EXPECTED_OUTPUT_TOKENS,
+  addUsage,
+  estimateCost,
+  estimateTokens,
+  getContextWindow,
+  getModelPrice,
+  type TokenUsage
+} from "~/utils/token-estimator"
 
 interface APIRequestConfig {
   url: string
@@ -10,27 +60,81 @@ interface APIRequestConfig {
   body: any
 }
 
+interface RequestOptions {
+  // 开启扩展思考（Claude / Gemini），并返回思考过程
+  thinking?: boolean
+  thinkingBudget?: number
+  // Azure OpenAI 部署名称和 API 版本
+  deployment?: string
+  apiVersion?: string
+  // 当前任务的生成参数，由各服务商转换为自己的请求字段
+  generation?: GenerationSettings
+  // 当前任务，模拟服务商据此返回总结、思维导图或问答格式的内容
+  task?: AITask
+}
+
+interface ProviderAttempt {
+  providerId: string
+  providerCfg: ProviderConfig
+  isMindElixir: boolean
+}
+
+// 服务商返回非 2xx 状态码时抛出，携带状态码以便判断是否可以重试
+class APIRequestError extends Error {
+  constructor(
+    message: string,
+    public status: number,
+    // 服务商返回的原始错误内容
+    public responseText = ""
+  ) {
+    super(message)
+    this.name = "APIRequestError"
+  }
+}
+
 interface StreamChunk {
   content: string | null
   reasoning: string | null
+  // 部分服务商分多次返回用量，各字段以最新值为准
+  usage?: Partial<TokenUsage> | null
+  // 服务商实际使用的模型名
+  model?: string | null
+}
+
+// 一次生成的结果信息：实际使用的服务商、Token 用量和费用
+interface StreamResult {
+  provider: string
+  usage: TokenUsage | null
+  cost: number | null
 }
 
 interface ProviderHandler {
+  /**
+   * Stream body format. Defaults to SSE (text/event-stream);
+   * "ndjson" means one JSON object per line.
+   */
+  streamFormat?: "sse" | "ndjson"
   getDefaultBaseUrl(): string
   buildRequestConfig(
     baseUrl: string,
     systemPrompt: string,
-    userPrompt: string,
+    messages: ChatMessage[],
     model: string,
     apiKey: string,
-    stream?: boolean
+    stream?: boolean,
+    options?: RequestOptions
   ): APIRequestConfig
   extractContent(response: any): string
   /**
-   * Parse a single SSE data line or stream chunk.
+   * Parse the JSON payload of a single SSE event or NDJSON line.
    * Returns the extracted text delta and reasoning delta.
    */
   parseStreamChunk(chunk: any): StreamChunk
+  /**
+   * Produce the streaming response without a network request.
+   * When omitted the request is sent with fetch.
+   */
+  fetchStream?(config: APIRequestConfig, signal?: AbortSignal): Promise<Response>
 }
 
 // 提供商配置类
@@ -42,28 +146,41 @@ class OpenAIProvider implements ProviderHandler {
   buildRequestConfig(
     baseUrl: string,
     systemPrompt: string,
-    userPrompt: string,
+    messages: ChatMessage[],
     model: string,
     apiKey: string,
-    stream: boolean = false
+    stream: boolean = false,
+    options: RequestOptions = {}
   ): APIRequestConfig {
-
-    const messages = []
-    if (systemPrompt) {
-      messages.push({ role: "system", content: systemPrompt })
+    const { generation = {} } = options
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json"
+    }
+    // 本地服务（如 llama.cpp）可以不设置 API Key
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`
     }
-    messages.push({ role: "user", content: userPrompt })
 
     return {
       url: `${baseUrl}/chat/completions`,
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`
-      },
+      headers,
       body: {
         model: model,
-        messages: messages,
-        stream: stream
+        messages: systemPrompt
+          ? [{ role: "system", content: systemPrompt }, ...messages]
+          : messages,
+        stream: stream,
+        // 流式响应默认不带用量，需要显式开启
+        ...(stream && { stream_options: { include_usage: true } }),
+        ...(generation.temperature !== undefined && {
+          temperature: generation.temperature
+        }),
+        ...(generation.topP !== undefined && { top_p: generation.topP }),
+        // 兼容接口普遍只支持 max_tokens
+        ...(generation.maxTokens && { max_tokens: generation.maxTokens }),
+        ...(generation.responseFormat === "json" && {
+          response_format: { type: "json_object" }
+        })
       }
     }
   }
@@ -74,7 +191,14 @@ class OpenAIProvider implements ProviderHandler {
       reasoning:
         chunk?.choices?.[0]?.delta?.reasoning_content ||
         chunk?.choices?.[0]?.delta?.reasoning ||
-        null
+        null,
+      usage: chunk?.usage
+        ? {
+            inputTokens: chunk.usage.prompt_tokens,
+            outputTokens: chunk.usage.completion_tokens
+          }
+        : null,
+      model: chunk?.model || null
     }
   }
 
@@ -83,6 +207,51 @@ class OpenAIProvider implements ProviderHandler {
   }
 }
 
+class AzureOpenAIProvider extends OpenAIProvider {
+  getDefaultBaseUrl(): string {
+    // 资源终结点因用户而异，没有默认值
+    return ""
+  }
+
+  buildRequestConfig(
+    baseUrl: string,
+    systemPrompt: string,
+    messages: ChatMessage[],
+    model: string,
+    apiKey: string,
+    stream: boolean = false,
+    options: RequestOptions = {}
+  ): APIRequestConfig {
+    if (!baseUrl || !options.deployment) {
+      throw new Error(t("azureConfigMissing"))
+    }
+
+    const config = super.buildRequestConfig(
+      baseUrl,
+      systemPrompt,
+      messages,
+      model,
+      apiKey,
+      stream,
+      options
+    )
+    const endpoint = baseUrl.replace(/\/+$/, "")
+    const deployment = encodeURIComponent(options.deployment)
+    const apiVersion = options.apiVersion || AZURE_DEFAULT_API_VERSION
+
+    // Azure 通过部署名称选择模型，并使用 api-key 请求头鉴权
+    const { model: _model, ...body } = config.body
+    return {
+      url: `${endpoint}/openai/deployments/${deployment}/chat/completions?api-version=${apiVersion}`,
+      headers: {
+        "Content-Type": "application/json",
+        "api-key": apiKey
+      },
+      body
+    }
+  }
+}
+
 class GeminiProvider implements ProviderHandler {
   getDefaultBaseUrl(): string {
     return "https://generativelanguage.googleapis.com/v1beta"
@@ -91,19 +260,29 @@ class GeminiProvider implements ProviderHandler {
   buildRequestConfig(
     baseUrl: string,
     systemPrompt: string,
-    userPrompt: string,
+    messages: ChatMessage[],
     model: string,
     apiKey: string,
-    stream: boolean = false
+    stream: boolean = false,
+    options: RequestOptions = {}
   ): APIRequestConfig {
+    const { generation = {} } = options
     const fullModelName = model.startsWith("models/")
       ? model
       : `models/${model}`
 
-    // Gemini 不支持分离的系统提示词，需要合并
-    const combinedPrompt = systemPrompt
-      ? `${systemPrompt}\n\n${userPrompt}`
-      : userPrompt
+    // Gemini 不支持分离的系统提示词，需要合并到第一条用户消息中
+    const contents = messages.map((message, index) => ({
+      role: message.role === "assistant" ? "model" : "user",
+      parts: [
+        {
+          text:
+            index === 0 && systemPrompt
+              ? `${systemPrompt}\n\n${message.content}`
+              : message.content
+        }
+      ]
+    }))
 
     const action = stream ? "streamGenerateContent" : "generateContent"
     const queryParams = stream ? `key=${apiKey}&alt=sse` : `key=${apiKey}`
@@ -114,22 +293,52 @@ class GeminiProvider implements ProviderHandler {
         "Content-Type": "application/json"
       },
       body: {
-        contents: [
-          {
-            parts: [{ text: combinedPrompt }]
-          }
-        ],
+        contents,
         generationConfig: {
-          responseMimeType: "application/json"
+          ...(generation.temperature !== undefined && {
+            temperature: generation.temperature
+          }),
+          ...(generation.topP !== undefined && { topP: generation.topP }),
+          ...(generation.maxTokens && {
+            maxOutputTokens: generation.maxTokens
+          }),
+          // 默认输出纯文本，只有显式选择 JSON 时才开启 JSON 模式
+          ...(generation.responseFormat === "json" && {
+            responseMimeType: "application/json"
+          }),
+          ...(options.thinking && {
+            thinkingConfig: {
+              includeThoughts: true,
+              thinkingBudget:
+                options.thinkingBudget || DEFAULT_THINKING_BUDGET
+            }
+          })
         }
       }
     }
   }
 
   parseStreamChunk(chunk: any): StreamChunk {
+    // 开启 includeThoughts 后，思考内容以 thought: true 的 part 返回
+    const parts: any[] = chunk?.candidates?.[0]?.content?.parts || []
+    const joinParts = (thought: boolean) =>
+      parts
+        .filter((part) => !!part?.thought === thought)
+        .map((part) => part?.text || "")
+        .join("")
+    const usageMetadata = chunk?.usageMetadata
     return {
-      content: chunk?.candidates?.[0]?.content?.parts?.[0]?.text || null,
-      reasoning: null // Gemini currently doesn't separate reasoning in standard API this way
+      content: joinParts(false) || null,
+      reasoning: joinParts(true) || null,
+      usage: usageMetadata
+        ? {
+            inputTokens: usageMetadata.promptTokenCount,
+            outputTokens:
+              (usageMetadata.candidatesTokenCount || 0) +
+              (usageMetadata.thoughtsTokenCount || 0)
+          }
+        : null,
+      model: chunk?.modelVersion || null
     }
   }
 
@@ -138,6 +347,8 @@ class GeminiProvider implements ProviderHandler {
   }
 }
 
+const CLAUDE_MAX_OUTPUT_TOKENS = 8192
+
 class ClaudeProvider implements ProviderHandler {
   getDefaultBaseUrl(): string {
     return "https://api.anthropic.com/v1"
@@ -146,11 +357,16 @@ class ClaudeProvider implements ProviderHandler {
   buildRequestConfig(
     baseUrl: string,
     systemPrompt: string,
-    userPrompt: string,
+    messages: ChatMessage[],
     model: string,
     apiKey: string,
-    stream: boolean = false
+    stream: boolean = false,
+    options: RequestOptions = {}
   ): APIRequestConfig {
+    const { generation = {} } = options
+    const thinkingBudget = options.thinking
+      ? Math.max(options.thinkingBudget || DEFAULT_THINKING_BUDGET, 1024)
+      : 0
 
     return {
       url: `${baseUrl}/messages`,
@@ -162,17 +378,50 @@ class ClaudeProvider implements ProviderHandler {
       body: {
         model: model,
         system: systemPrompt,
-        messages: [{ role: "user", content: userPrompt }],
+        messages,
+        // max_tokens 为必填项，开启思考时必须大于思考预算
+        max_tokens:
+          (generation.maxTokens || CLAUDE_MAX_OUTPUT_TOKENS) + thinkingBudget,
+        ...(thinkingBudget > 0 && {
+          thinking: { type: "enabled", budget_tokens: thinkingBudget }
+        }),
+        // 开启思考时不允许修改 temperature / top_p；Claude 没有 JSON 模式，输出格式由提示词约束
+        ...(thinkingBudget === 0 &&
+          generation.temperature !== undefined && {
+            temperature: generation.temperature
+          }),
+        ...(thinkingBudget === 0 &&
+          generation.topP !== undefined && { top_p: generation.topP }),
         stream: stream
       }
     }
   }
 
   parseStreamChunk(chunk: any): StreamChunk {
+    // 输入用量在 message_start 中返回，输出用量在 message_delta 中累计返回
+    if (chunk?.type === "message_start") {
+      return {
+        content: null,
+        reasoning: null,
+        usage: { inputTokens: chunk?.message?.usage?.input_tokens },
+        model: chunk?.message?.model || null
+      }
+    }
+    if (chunk?.type === "message_delta" && chunk?.usage) {
+      return {
+        content: null,
+        reasoning: null,
+        usage: { outputTokens: chunk.usage.output_tokens }
+      }
+    }
     if (chunk?.type === "content_block_delta") {
       return {
         content: chunk?.delta?.text || null,
-        reasoning: null // Claude reasoning not standard via this field yet
+        // 扩展思考以 thinking_delta 返回
+        reasoning:
+          chunk?.delta?.type === "thinking_delta"
+            ? chunk.delta.thinking || null
+            : null
       }
     }
     return { content: null, reasoning: null }
@@ -183,18 +432,243 @@ class ClaudeProvider implements ProviderHandler {
   }
 }
 
+class OllamaProvider implements ProviderHandler {
+  streamFormat = "ndjson" as const
+
+  getDefaultBaseUrl(): string {
+    return "http://localhost:11434"
+  }
+
+  buildRequestConfig(
+    baseUrl: string,
+    systemPrompt: string,
+    messages: ChatMessage[],
+    model: string,
+    apiKey: string,
+    stream: boolean = false,
+    options: RequestOptions = {}
+  ): APIRequestConfig {
+    const { generation = {} } = options
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json"
+    }
+    // Ollama 本身不需要鉴权，设置了 Key 时用于经过反向代理的部署
+    if (apiKey) {
+      headers.Authorization = `Bearer ${apiKey}`
+    }
+
+    return {
+      url: `${baseUrl}/api/chat`,
+      headers,
+      body: {
+        model: model,
+        messages: systemPrompt
+          ? [{ role: "system", content: systemPrompt }, ...messages]
+          : messages,
+        stream: stream,
+        ...(generation.responseFormat === "json" && { format: "json" }),
+        options: {
+          // Ollama 默认上下文较短，长字幕会被静默截断
+          num_ctx: 16384,
+          ...(generation.temperature !== undefined && {
+            temperature: generation.temperature
+          }),
+          ...(generation.topP !== undefined && { top_p: generation.topP }),
+          ...(generation.maxTokens && { num_predict: generation.maxTokens })
+        }
+      }
+    }
+  }
+
+  parseStreamChunk(chunk: any): StreamChunk {
+    return {
+      content: chunk?.message?.content || null,
+      reasoning: chunk?.message?.thinking || null,
+      // 最后一条（done: true）消息带有用量统计
+      usage: chunk?.done
+        ? {
+            inputTokens: chunk.prompt_eval_count,
+            outputTokens: chunk.eval_count
+          }
+        : null,
+      model: chunk?.model || null
+    }
+  }
+
+  extractContent(response: any): string {
+    return response.message?.content || ""
+  }
+}
+
+// 模拟服务商：沿用 OpenAI 的流格式，由本地生成响应，不访问网络
+class MockProvider extends OpenAIProvider {
+  getDefaultBaseUrl(): string {
+    return "mock://local"
+  }
+
+  buildRequestConfig(
+    baseUrl: string,
+    systemPrompt: string,
+    messages: ChatMessage[],
+    model: string,
+    apiKey: string,
+    stream: boolean = false,
+    options: RequestOptions = {}
+  ): APIRequestConfig {
+    const config = super.buildRequestConfig(
+      baseUrl,
+      systemPrompt,
+      messages,
+      model || "mock",
+      apiKey,
+      stream,
+      options
+    )
+    return { ...config, body: { ...config.body, task: options.task } }
+  }
+
+  async fetchStream(
+    config: APIRequestConfig,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    return createMockResponse(config.body, signal)
+  }
+}
+
 const BACKEND_BASE_URL = import.meta.env.WXT_BACKEND_BASE_URL
 
+// 作为后台任务运行、结果写入面板缓存的生成动作
+const JOB_ACTIONS = [
+  "summarizeSubtitlesStream",
+  "generateMindmapStream",
+  "generateArticleMindmapStream"
+]
+
 // Default fallback endpoint powered by Mind Elixir Star balance.
 // Used when the user has not configured a personal AI provider.
-const DEFAULT_MIND_ELIXIR_CONFIG: AIConfig = {
-  activeProvider: "mind-elixir",
-  replyLanguage: "auto",
-  providers: {
-    "mind-elixir": DEFAULT_MIND_ELIXIR_PROVIDER
+const MIND_ELIXIR_ATTEMPT: ProviderAttempt = {
+  providerId: "mind-elixir",
+  providerCfg: DEFAULT_MIND_ELIXIR_PROVIDER,
+  isMindElixir: true
+}
+
+// Azure OpenAI 没有单独的模型字段，部署名称通常与模型同名
+const getAttemptModel = (attempt: ProviderAttempt): string =>
+  attempt.providerCfg.model || attempt.providerCfg.deployment || ""
+
+// 用于在面板中展示实际生成结果的服务商
+const getProviderDisplayName = (attempt: ProviderAttempt): string => {
+  if (attempt.isMindElixir) return "Mind Elixir"
+  const model = getAttemptModel(attempt)
+  return model ? `${attempt.providerId} (${model})` : attempt.providerId
+}
+
+// 本地服务商不计费，Mind Elixir 以 Star 计费，其余按模型价格表计算
+const getProviderPrice = (attempt: ProviderAttempt) => {
+  if (attempt.isMindElixir) return null
+  if (isLocalProvider(attempt.providerId)) return { input: 0, output: 0 }
+  return getModelPrice(getAttemptModel(attempt))
+}
+
+// 合并多次调用（如分段总结）的结果信息
+const mergeResults = (
+  previous: StreamResult | null,
+  next: StreamResult
+): StreamResult => {
+  if (!previous) return next
+  return {
+    provider: next.provider,
+    usage: addUsage(previous.usage, next.usage),
+    cost:
+      previous.cost !== null && next.cost !== null
+        ? previous.cost + next.cost
+        : null
+  }
+}
+
+interface StreamError {
+  message: string
+  // 对应的 HTTP 状态码，无法判断时为 0
+  status: number
+}
+
+// Claude error 事件的错误类型对应的状态码，用于判断能否切换到备用服务商
+const CLAUDE_ERROR_STATUS: Record<string, number> = {
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529
+}
+
+/**
+ * 识别流中途返回的错误：Ollama 返回 {"error": "..."}，
+ * OpenAI 兼容接口（包括 OpenRouter）、Gemini 和 Claude 返回 {"error": {"message": ...}}
+ */
+const getStreamError = (data: any): StreamError | null => {
+  const error = data?.error
+  if (typeof error === "string") {
+    return { message: error, status: 0 }
+  }
+  if (typeof error?.message !== "string") return null
+  const status =
+    typeof error.code === "number"
+      ? error.code
+      : CLAUDE_ERROR_STATUS[error.type] || 0
+  return { message: error.message, status }
+}
+
+// 解析流中的一条 JSON 数据，无法解析时返回 undefined
+const parseStreamData = (text: string): any => {
+  try {
+    return JSON.parse(text)
+  } catch (e) {
+    console.warn("Failed to parse stream chunk:", e)
+    return undefined
   }
 }
 
+// 问答时为回答预留的 Token 数（未设置最大输出 Token 数时）
+const CHAT_REPLY_TOKENS = 4096
+// 问答提示词中参考内容以外部分（指令、标题等）的大致 Token 数
+const CHAT_PROMPT_TOKENS = 1000
+// 可用于参考内容的空间少于该值时，对话已过长，无法再给出有依据的回答
+const CHAT_MIN_CONTENT_TOKENS = 1000
+
+// 测试连接的超时时间
+const CONNECTION_TEST_TIMEOUT = 30000
+
+/**
+ * 把测试连接的错误归类为用户可以处理的原因：Key 无效、模型不存在、API 地址错误等
+ */
+const describeConnectionError = (error: unknown, timedOut: boolean): string => {
+  const detail = error instanceof Error ? error.message : String(error)
+  if (timedOut) return t("connectionTestTimeout")
+  // fetch 无法连接时抛出 TypeError
+  if (error instanceof TypeError) return t("connectionTestUnreachable", detail)
+  if (!(error instanceof APIRequestError)) return detail
+
+  const { status, responseText } = error
+  if (status === 401 || status === 403) {
+    return t("connectionTestInvalidKey", detail)
+  }
+  // 模型不存在时大多返回 404（OpenRouter 为 400），错误内容会提到 model
+  if ((status === 404 || status === 400) && /model/i.test(responseText)) {
+    return t("connectionTestUnknownModel", detail)
+  }
+  if (status === 404 || status === 405) {
+    return t("connectionTestWrongBaseUrl", detail)
+  }
+  if (status === 429) return t("connectionTestRateLimited", detail)
+  return detail
+}
+
+// 429、5xx 以及网络错误（fetch 抛出 TypeError）可以切换到备用服务商重试
+const isRetryableError = (error: unknown): boolean => {
+  if (error instanceof APIRequestError) {
+    return error.status === 429 || error.status >= 500
+  }
+  return error instanceof TypeError
+}
+
 class BackgroundAIService {
   private providerHandlers: Record<string, ProviderHandler> = {
     "mind-elixir": new OpenAIProvider(),
@@ -202,12 +676,17 @@ class BackgroundAIService {
     "openai-compatible": new OpenAIProvider(),
     gemini: new GeminiProvider(),
     claude: new ClaudeProvider(),
-    openrouter: new OpenAIProvider()
+    openrouter: new OpenAIProvider(),
+    "azure-openai": new AzureOpenAIProvider(),
+    ollama: new OllamaProvider(),
+    "llama-cpp": new OpenAIProvider(),
+    mock: new MockProvider()
   }
 
   async getConfig(): Promise<AIConfig | null> {
     try {
-      const config = await storage.getItem<AIConfig>("local:aiConfigV2")
+      // 开启加密且已解锁时，API Key 在这里解密
+      const config = await loadAIConfig()
       if (!config) return null
       if (!config.replyLanguage || config.replyLanguage === "auto") {
         config.replyLanguage = getMatchedBrowserLanguage(chrome.i18n.getUILanguage())
@@ -219,144 +698,522 @@ class BackgroundAIService {
     }
   }
 
+  /**
+   * 按顺序解析本次请求可尝试的服务商：当前服务商在前，备用服务商在后
+   * @param task 任务设置了单独的服务商/模型时，优先使用该服务商
+   */
+  async getProviderChain(task?: AITask): Promise<ProviderAttempt[]> {
+    const config = await this.getConfig()
+    const activeProvider = config?.activeProvider || "mind-elixir"
+    const activeCfg = config?.providers?.[activeProvider]
+
+    // Fall back to the built-in Mind Elixir endpoint when:
+    // (a) the user has not configured any provider,
+    // (b) the user explicitly selected the "mind-elixir" provider, or
+    // (c) the active provider has no saved config.
+    const chain: ProviderAttempt[] = [
+      !config || !activeCfg || activeProvider === "mind-elixir"
+        ? MIND_ELIXIR_ATTEMPT
+        : { providerId: activeProvider, providerCfg: activeCfg, isMindElixir: false }
+    ]
+
+    // 任务级覆盖：放在最前面，原来的当前服务商作为它的第一个备用
+    const override = task ? config?.taskOverrides?.[task] : undefined
+    if (override?.provider === "mind-elixir") {
+      if (!chain[0].isMindElixir) chain.unshift(MIND_ELIXIR_ATTEMPT)
+    } else if (override && config?.providers?.[override.provider]) {
+      const providerCfg = config.providers[override.provider]
+      const model = override.model?.trim()
+      const attempt: ProviderAttempt = {
+        providerId: override.provider,
+        providerCfg: model ? { ...providerCfg, model } : providerCfg,
+        isMindElixir: false
+      }
+      if (chain[0].providerId === override.provider) {
+        chain[0] = attempt
+      } else {
+        chain.unshift(attempt)
+      }
+    }
+
+    for (const providerId of config?.fallbackProviders || []) {
+      if (chain.some((attempt) => attempt.providerId === providerId)) continue
+      if (providerId === "mind-elixir") {
+        chain.push(MIND_ELIXIR_ATTEMPT)
+        continue
+      }
+      const providerCfg = config?.providers?.[providerId]
+      if (!providerCfg) continue
+      chain.push({ providerId, providerCfg, isMindElixir: false })
+    }
+
+    return chain
+  }
+
   /**
    * 流式API调用
+   * 当前服务商在返回首个内容前出现 429/5xx/网络错误时，依次尝试备用服务商
+   * @param input 单轮用户提示词，或多轮对话的消息列表
+   * @param task 当前任务，用于选择任务级的服务商和模型
    */
   async streamAI(
     systemPrompt: string,
-    userPrompt: string,
+    input: string | ChatMessage[],
     onChunk: (chunk: StreamChunk) => void,
-    onDone: () => void,
+    onDone: (result: StreamResult) => void,
     onError: (error: string) => void,
     signal?: AbortSignal,
     extraBodyFields?: Record<string, string>,
-    onFreeGeneration?: () => void
+    onFreeGeneration?: () => void,
+    task?: AITask
   ): Promise<void> {
     try {
-      let config = await this.getConfig()
-      const originalProvider = config?.activeProvider || "mind-elixir"
-      let providerCfg = config?.providers?.[originalProvider]
-      let apiKey = providerCfg?.apiKey
-
-      // Fall back to the built-in Mind Elixir endpoint when:
-      // (a) the user has not configured any provider,
-      // (b) the user explicitly selected the "mind-elixir" provider, or
-      // (c) the active provider has no saved config.
-      const isMindElixir = !config || !providerCfg || originalProvider === "mind-elixir"
-
-      if (isMindElixir) {
-        config = {
-          ...DEFAULT_MIND_ELIXIR_CONFIG,
-          replyLanguage: getMatchedBrowserLanguage(chrome.i18n.getUILanguage())
+      const chain = await this.getProviderChain(task)
+      const config = await this.getConfig()
+      const generation = task ? config?.generationSettings?.[task] : undefined
+      const messages: ChatMessage[] =
+        typeof input === "string" ? [{ role: "user", content: input }] : input
+      let received = false
+
+      for (let i = 0; i < chain.length; i++) {
+        const attempt = chain[i]
+        try {
+          const { usage } = await this.streamWithProvider(
+            attempt,
+            systemPrompt,
+            messages,
+            (chunk) => {
+              received = true
+              onChunk(chunk)
+            },
+            signal,
+            extraBodyFields,
+            onFreeGeneration,
+            generation,
+            task
+          )
+          const price = getProviderPrice(attempt)
+          onDone({
+            provider: getProviderDisplayName(attempt),
+            usage,
+            cost: usage ? estimateCost(getAttemptModel(attempt), usage, price) : null
+          })
+          return
+        } catch (error) {
+          const isLast = i === chain.length - 1
+          if (signal?.aborted || received || isLast || !isRetryableError(error)) {
+            throw error
+          }
+          console.warn(
+            `Provider ${attempt.providerId} failed, falling back to ${chain[i + 1].providerId}:`,
+            error
+          )
         }
-        providerCfg = config.providers["mind-elixir"]
-        apiKey = providerCfg.apiKey!
       }
+    } catch (error) {
+      console.error("Stream error:", error)
+      onError(error instanceof Error ? error.message : String(error))
+    }
+  }
 
-      if (!config) {
-        throw new Error("AI configuration is missing")
-      }
+  /**
+   * 使用指定服务商发起一次流式请求，出错时抛出异常
+   * @param maxRetries 429/5xx/网络错误的重试次数，默认使用全局设置
+   * @returns 服务商返回的 Token 用量和实际使用的模型（未返回时为 null）
+   */
+  private async streamWithProvider(
+    attempt: ProviderAttempt,
+    systemPrompt: string,
+    messages: ChatMessage[],
+    onChunk: (chunk: StreamChunk) => void,
+    signal?: AbortSignal,
+    extraBodyFields?: Record<string, string>,
+    onFreeGeneration?: () => void,
+    generation?: GenerationSettings,
+    task?: AITask,
+    maxRetries?: number
+  ): Promise<{ usage: TokenUsage | null; model: string | null }> {
+    const { providerId, providerCfg, isMindElixir } = attempt
+    const apiKey = providerCfg.apiKey
+
+    if (!isLocalProvider(providerId) && (!apiKey || !apiKey.trim())) {
+      throw new Error(
+        providerCfg.encryptedApiKey ? t("apiKeysLocked") : "API Key is missing"
+      )
+    }
+
+    const handler = this.providerHandlers[providerId]
+    if (!handler) {
+      throw new Error(`不支持的AI服务商: ${providerId}`)
+    }
 
-      if (!apiKey || !apiKey.trim()) {
-        throw new Error("API Key is missing")
+    const model = providerCfg.model || ""
+    const baseUrl = providerCfg.baseUrl || handler.getDefaultBaseUrl()
+    const requestConfig = handler.buildRequestConfig(
+      baseUrl,
+      systemPrompt,
+      messages,
+      model,
+      apiKey || "",
+      true,
+      {
+        thinking: providerCfg.thinking,
+        thinkingBudget: providerCfg.thinkingBudget,
+        deployment: providerCfg.deployment,
+        apiVersion: providerCfg.apiVersion,
+        generation,
+        task
       }
+    )
 
-      const handler = this.providerHandlers[config.activeProvider]
-      if (!handler) {
-        throw new Error(`不支持的AI服务商: ${config.activeProvider}`)
+    // 429/5xx/网络错误先在当前服务商上退避重试，仍失败时再交给备用服务商
+    const response = handler.fetchStream
+      ? await handler.fetchStream(requestConfig, signal)
+      : await fetchWithRetry(
+          requestConfig.url,
+          {
+            method: "POST",
+            headers: requestConfig.headers,
+            body: JSON.stringify(
+              isMindElixir && extraBodyFields
+                ? { ...requestConfig.body, ...extraBodyFields }
+                : requestConfig.body
+            ),
+            signal // Pass signal to fetch
+          },
+          {
+            maxRetries,
+            retryNetworkErrors: true,
+            onRetry: (attempt, delay, reason) => {
+              console.warn(
+                `Retrying ${providerId} (attempt ${attempt}) in ${Math.round(delay)}ms: ${reason}`
+              )
+            }
+          }
+        )
+
+    // Check if this was a free generation
+    const isFreeGeneration = isMindElixir && response.headers.get("X-Free-Generation") === "true"
+    if (isFreeGeneration && onFreeGeneration) {
+      onFreeGeneration()
+    }
+
+    if (!response.ok) {
+      const text = await response.text()
+      if (response.status === 402 && isMindElixir) {
+        throw new APIRequestError(t("mindElixirInsufficientBalance"), response.status)
+      }
+      if ((response.status === 403 || response.status === 401) && isMindElixir) {
+        throw new APIRequestError(t("mindElixirLoginRequired"), response.status)
       }
 
-      const model = providerCfg?.model || ""
-      const baseUrl = providerCfg?.baseUrl || handler.getDefaultBaseUrl()
-      const requestConfig = handler.buildRequestConfig(
-        baseUrl,
-        systemPrompt,
-        userPrompt,
-        model,
-        apiKey,
-        true
+      throw new APIRequestError(
+        t("apiRequestFailed", [
+          getProviderDisplayName(attempt),
+          response.status.toString(),
+          response.statusText || "",
+          text || ""
+        ]),
+        response.status,
+        text
       )
+    }
 
-      const response = await fetch(requestConfig.url, {
-        method: "POST",
-        headers: requestConfig.headers,
-        body: JSON.stringify(
-          isMindElixir && extraBodyFields
-            ? { ...requestConfig.body, ...extraBodyFields }
-            : requestConfig.body
-        ),
-        signal // Pass signal to fetch
-      })
+    const reader = response.body?.getReader()
+    if (!reader) {
+      throw new Error("无法获取响应流")
+    }
 
-      // Check if this was a free generation
-      const isFreeGeneration = isMindElixir && response.headers.get("X-Free-Generation") === "true"
-      if (isFreeGeneration && onFreeGeneration) {
-        onFreeGeneration()
-      }
+    const decoder = new TextDecoder()
+    const sseDecoder = new SSEDecoder()
+    let buffer = ""
+    let usage: Partial<TokenUsage> = {}
+    let echoedModel: string | null = null
 
-      if (!response.ok) {
-        const text = await response.text()
-        if (response.status === 402 && isMindElixir) {
-          throw new Error(t("mindElixirInsufficientBalance"))
-        }
-        if ((response.status === 403 || response.status === 401) && isMindElixir) {
-          throw new Error(t("mindElixirLoginRequired"))
-        }
+    const toStreamError = (error: StreamError) =>
+      new APIRequestError(
+        t("providerStreamError", [getProviderDisplayName(attempt), error.message]),
+        error.status
+      )
 
-        const displayProvider = isMindElixir ? "Mind Elixir" : (originalProvider || "AI")
-        throw new Error(
-          t("apiRequestFailed", [
-            displayProvider,
-            response.status.toString(),
-            response.statusText || "",
-            text || ""
-          ])
-        )
+    const handleData = (data: any) => {
+      const streamError = getStreamError(data)
+      if (streamError) {
+        throw toStreamError(streamError)
       }
 
-      const reader = response.body?.getReader()
-      if (!reader) {
-        throw new Error("无法获取响应流")
+      const chunkData = handler.parseStreamChunk(data)
+      if (chunkData.usage) {
+        usage = { ...usage, ...chunkData.usage }
       }
+      if (chunkData.model) {
+        echoedModel = chunkData.model
+      }
+      if (chunkData.content || chunkData.reasoning) {
+        onChunk(chunkData)
+      }
+    }
 
-      const decoder = new TextDecoder()
-      let buffer = ""
-
-      while (true) {
-        const { done, value } = await reader.read()
-        if (done) break
-
-        const chunk = decoder.decode(value, { stream: true })
-        buffer += chunk
+    const handleLine = (line: string) => {
+      const trimmedLine = line.trim()
+      if (!trimmedLine) return
+      const data = parseStreamData(trimmedLine)
+      if (data !== undefined) handleData(data)
+    }
 
+    const handleText = (text: string) => {
+      if (handler.streamFormat === "ndjson") {
+        buffer += text
         const lines = buffer.split("\n")
         buffer = lines.pop() || ""
+        lines.forEach(handleLine)
+        return
+      }
 
-        for (const line of lines) {
-          const trimmedLine = line.trim()
-          if (!trimmedLine) continue
-          if (trimmedLine.startsWith("data: ")) {
-            const dataStr = trimmedLine.slice(6)
-            if (dataStr === "[DONE]") continue
-
-            try {
-              const data = JSON.parse(dataStr)
-              const chunkData = handler.parseStreamChunk(data)
-              if (chunkData.content || chunkData.reasoning) {
-                onChunk(chunkData)
-              }
-            } catch (e) {
-              console.warn("Failed to parse stream chunk:", e)
-            }
-          }
+      for (const event of sseDecoder.push(text)) {
+        if (event.data === "[DONE]") continue
+        const data = parseStreamData(event.data)
+
+        // Claude 等服务商在流中途以 error 事件返回错误，内容不一定是 JSON
+        if (event.event === "error") {
+          throw toStreamError(
+            getStreamError(data) || { message: event.data, status: 0 }
+          )
         }
+        if (data !== undefined) handleData(data)
       }
+    }
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      handleText(decoder.decode(value, { stream: true }))
+    }
+
+    // 流结束：输出解码器中残留的字节；NDJSON 最后一行可能没有换行符，同样需要解析
+    handleText(decoder.decode())
+    if (handler.streamFormat === "ndjson") {
+      handleLine(buffer)
+      buffer = ""
+    }
+
+    const hasUsage =
+      usage.inputTokens !== undefined || usage.outputTokens !== undefined
+    return {
+      usage: hasUsage
+        ? {
+            inputTokens: usage.inputTokens || 0,
+            outputTokens: usage.outputTokens || 0
+          }
+        : null,
+      model: echoedModel
+    }
+  }
 
-      onDone()
+  /**
+   * 非流式地收集一次完整的AI输出
+   */
+  collectAI(
+    systemPrompt: string,
+    userPrompt: string,
+    signal?: AbortSignal,
+    onReasoning?: (reasoning: string) => void,
+    task?: AITask
+  ): Promise<{ content: string; result: StreamResult }> {
+    return new Promise((resolve, reject) => {
+      let content = ""
+      this.streamAI(
+        systemPrompt,
+        userPrompt,
+        (chunk) => {
+          if (chunk.content) content += chunk.content
+          if (chunk.reasoning && onReasoning) onReasoning(chunk.reasoning)
+        },
+        (result) => resolve({ content, result }),
+        (error) => reject(new Error(error)),
+        signal,
+        undefined,
+        undefined,
+        task
+      )
+    })
+  }
+
+  /**
+   * 分段总结（map 阶段）：逐段调用AI提炼要点，返回带片段描述的摘要文本
+   */
+  async summarizeChunks(
+    chunks: TranscriptChunk[],
+    onProgress: (current: number, total: number) => void,
+    onReasoning?: (reasoning: string) => void,
+    signal?: AbortSignal,
+    task?: AITask
+  ): Promise<{ text: string; result: StreamResult | null }> {
+    const systemPrompt = await PROMPTS.CHUNK_SUMMARY_SYSTEM()
+    const partials: string[] = []
+    let result: StreamResult | null = null
+
+    for (let i = 0; i < chunks.length; i++) {
+      onProgress(i + 1, chunks.length)
+      const label = describeChunk(chunks[i], i, chunks.length)
+      const partial = await this.collectAI(
+        systemPrompt,
+        PROMPTS.CHUNK_SUMMARY_USER(chunks[i].text, label),
+        signal,
+        onReasoning,
+        task
+      )
+      partials.push(`### ${label}\n\n${partial.content.trim()}`)
+      result = mergeResults(result, partial.result)
+    }
+
+    return { text: partials.join("\n\n"), result }
+  }
+
+  /**
+   * 测试服务商配置（可以是尚未保存的配置）
+   * 发送一个最小的流式请求，走与生成相同的请求和解析流程
+   */
+  async testConnection(
+    providerId: string,
+    providerCfg: ProviderConfig
+  ): Promise<ConnectionTestResult> {
+    if (!isLocalProvider(providerId) && !providerCfg.apiKey?.trim()) {
+      return {
+        success: false,
+        error: providerCfg.encryptedApiKey
+          ? t("apiKeysLocked")
+          : t("connectionTestMissingKey")
+      }
+    }
+
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), CONNECTION_TEST_TIMEOUT)
+    const startedAt = Date.now()
+    let latency: number | undefined
+    let reasoning = false
+
+    try {
+      const { model } = await this.streamWithProvider(
+        { providerId, providerCfg, isMindElixir: false },
+        "This is a connection test. Reply with the single word OK.",
+        [{ role: "user", content: "ping" }],
+        (chunk) => {
+          if (latency === undefined) latency = Date.now() - startedAt
+          if (chunk.reasoning) reasoning = true
+        },
+        controller.signal,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        // 不重试，直接显示服务商返回的状态和错误，延迟也不包含退避时间
+        0
+      )
+      return {
+        success: true,
+        latency,
+        totalTime: Date.now() - startedAt,
+        model,
+        // 请求成功但没有解析出任何分片，说明服务端没有按流式格式返回
+        streaming: latency !== undefined,
+        reasoning
+      }
     } catch (error) {
-      console.error("Stream error:", error)
-      onError(error instanceof Error ? error.message : String(error))
+      return {
+        success: false,
+        error: describeConnectionError(error, controller.signal.aborted)
+      }
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * 生成前估算输入 Token 数和费用（基于当前服务商和模型）
+   */
+  async estimateGeneration(action: string, content: string, title?: string) {
+    const task = ACTION_TASKS[action]
+    const [attempt] = await this.getProviderChain(task)
+    // 设置了最大输出 Token 数时，输出不会超过该值
+    const maxTokens = (await this.getConfig())?.generationSettings?.[task]
+      ?.maxTokens
+    const capOutput = (tokens: number) =>
+      maxTokens ? Math.min(tokens, maxTokens) : tokens
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0 }
+
+    // 与实际生成相同：超长字幕先逐段提炼要点（map），再合并生成（reduce）
+    const chunks =
+      action === "summarizeSubtitlesStream" ||
+      action === "generateMindmapStream"
+        ? splitTranscript(content)
+        : [{ text: content }]
+    let finalContent = content
+    if (chunks.length > 1) {
+      const chunkSystem = await PROMPTS.CHUNK_SUMMARY_SYSTEM()
+      const chunkOutput = capOutput(EXPECTED_CHUNK_OUTPUT_TOKENS)
+      chunks.forEach((chunk, i) => {
+        const label = describeChunk(chunk, i, chunks.length)
+        usage.inputTokens +=
+          estimateTokens(chunkSystem) +
+          estimateTokens(PROMPTS.CHUNK_SUMMARY_USER(chunk.text, label))
+        usage.outputTokens += chunkOutput
+      })
+      // 合并阶段的输入是各段要点，生成前未知，按每段的预计输出计算
+      finalContent = PROMPTS.REDUCE_CONTENT("")
+      usage.inputTokens += chunkOutput * chunks.length
+    }
+
+    const prompts = await buildTaskPrompts(task, {
+      content: finalContent,
+      title
+    })
+    usage.inputTokens +=
+      estimateTokens(prompts.system) + estimateTokens(prompts.user)
+    usage.outputTokens += capOutput(EXPECTED_OUTPUT_TOKENS[action] || 0)
+    return {
+      ...usage,
+      provider: getProviderDisplayName(attempt),
+      cost: estimateCost(
+        getAttemptModel(attempt),
+        usage,
+        getProviderPrice(attempt)
+      )
+    }
+  }
+
+  /**
+   * 将问答的参考内容裁剪到模型上下文能容纳的长度，超出时保留与问题相关的片段；
+   * 每轮都会连同对话历史一起发送，需要为历史和回答预留空间
+   */
+  async fitChatContent(
+    content: string,
+    messages: ChatMessage[],
+    task?: AITask
+  ): Promise<string> {
+    const [attempt] = await this.getProviderChain(task)
+    const generation = task
+      ? (await this.getConfig())?.generationSettings?.[task]
+      : undefined
+    const maxTokens = generation?.maxTokens || CHAT_REPLY_TOKENS
+    const historyTokens = messages.reduce(
+      (sum, message) => sum + estimateTokens(message.content),
+      0
+    )
+    const budget =
+      getContextWindow(getAttemptModel(attempt)) -
+      maxTokens -
+      historyTokens -
+      CHAT_PROMPT_TOKENS
+    if (budget < CHAT_MIN_CONTENT_TOKENS) {
+      throw new Error(t("chatContextTooLong"))
     }
+
+    // 按最新的问题选取相关片段
+    const question =
+      messages.findLast((message) => message.role === "user")?.content || ""
+    const selected = selectRelevantContent(content, question, budget)
+    return selected.trimmed ? PROMPTS.TRIMMED_CONTENT(selected.text) : content
   }
 
   /**
@@ -402,65 +1259,63 @@ class BackgroundAIService {
       .replace(/\s+/g, " ")
       .trim()
 
-    // 限制长度，但保持句子完整性
-    if (formattedText.length <= 8000) {
-      return formattedText
-    }
-
-    // 如果超长，尝试在句号处截断
-    const truncated = formattedText.substring(0, 8000)
-    const lastPeriod = truncated.lastIndexOf("。")
-    const lastSpace = truncated.lastIndexOf(" ")
-
-    const cutPoint =
-      lastPeriod > 7000 ? lastPeriod + 1 : lastSpace > 7000 ? lastSpace : 8000
-
-    return formattedText.substring(0, cutPoint).trim()
+    // 超长内容由分段总结流程处理，这里不再截断
+    return formattedText
   }
 }
 
 export default defineBackground(() => {
   const backgroundAIService = new BackgroundAIService()
-  let capturedSubtitleUrl: string | null = null
+  recoverInterruptedJobs()
 
   // 监听YouTube的timedtext API请求
   chrome.webRequest.onBeforeRequest.addListener(
     (details) => {
       const url = new URL(details.url)
 
-      // 检查是否是YouTube的timedtext API请求
-      if (
-        url.hostname === "www.youtube.com" &&
-        url.pathname === "/api/timedtext"
-      ) {
+      // 检查是否是YouTube的timedtext API请求（YouTube Music 和嵌入播放器使用各自的域名）
+      if (url.pathname === "/api/timedtext") {
         // 检查是否包含pot参数（表示这是一个有效的字幕请求）
-        if (url.searchParams.has("pot")) {
-          console.log("捕获到YouTube字幕URL:", details.url)
-          capturedSubtitleUrl = details.url
-
-          // 通知content script字幕URL已捕获
-          chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
-            if (tabs[0]?.id) {
-              chrome.tabs
-                .sendMessage(tabs[0].id, {
-                  type: "SUBTITLE_URL_CAPTURED",
-                  url: details.url
-                })
-                .catch(() => {
-                  // 忽略发送失败的错误（可能content script还未加载）
-                })
-            }
-          })
+        // tabId 为 -1 表示请求不是由标签页发出的
+        if (url.searchParams.has("pot") && details.tabId >= 0) {
+          const videoId = saveCapturedSubtitleUrl(details.tabId, details.url)
+          console.log("捕获到YouTube字幕URL:", details.tabId, videoId)
+
+          // 通知发出请求的标签页中的content script字幕URL已捕获
+          chrome.tabs
+            .sendMessage(details.tabId, {
+              type: "SUBTITLE_URL_CAPTURED",
+              url: details.url,
+              videoId
+            })
+            .catch(() => {
+              // 忽略发送失败的错误（可能content script还未加载）
+            })
         }
       }
     },
     {
-      urls: ["https://www.youtube.com/api/timedtext*"]
+      urls: [
+        "https://www.youtube.com/api/timedtext*",
+        "https://m.youtube.com/api/timedtext*",
+        "https://music.youtube.com/api/timedtext*",
+        "https://www.youtube-nocookie.com/api/timedtext*"
+      ]
     }
   )
 
+  // 标签页关闭或导航后清理捕获的字幕URL
+  chrome.tabs.onRemoved.addListener((tabId) => {
+    clearCapturedSubtitleUrls(tabId)
+  })
+  chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+    if (changeInfo.url) {
+      pruneCapturedSubtitleUrls(tabId, changeInfo.url)
+    }
+  })
+
   // Listen for messages from content scripts
-  chrome.runtime.onMessage.addListener((request, _sender, sendResponse) => {
+  chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
     if (request.action === "formatSubtitles") {
       const formatted = backgroundAIService.formatSubtitlesForAI(
         request.subtitles
@@ -468,12 +1323,45 @@ export default defineBackground(() => {
       sendResponse({ success: true, data: formatted })
     }
 
+    if (request.action === "estimateGeneration") {
+      backgroundAIService
+        .estimateGeneration(
+          request.generationAction,
+          request.content,
+          request.title
+        )
+        .then((data) => sendResponse({ success: true, data }))
+        .catch((err) => {
+          console.warn("[Background] estimateGeneration failed:", err)
+          sendResponse({ success: false, error: err.message })
+        })
+      return true // Keep the message channel open for async response
+    }
+
+    if (request.action === "testConnection") {
+      backgroundAIService
+        .testConnection(request.provider, request.config)
+        .then((data) => sendResponse({ success: true, data }))
+        .catch((err) => {
+          console.warn("[Background] testConnection failed:", err)
+          sendResponse({ success: false, error: err.message })
+        })
+      return true
+    }
+
     if (request.action === "getCapturedSubtitleUrl") {
-      sendResponse({ success: true, data: capturedSubtitleUrl })
+      const tabId = sender.tab?.id
+      const data =
+        tabId !== undefined && request.videoId
+          ? getCapturedSubtitleUrl(tabId, request.videoId)
+          : null
+      sendResponse({ success: true, data })
     }
 
     if (request.action === "clearCapturedSubtitleUrl") {
-      capturedSubtitleUrl = null
+      if (sender.tab?.id !== undefined) {
+        clearCapturedSubtitleUrls(sender.tab.id, request.videoId)
+      }
       sendResponse({ success: true })
     }
 
@@ -547,6 +1435,8 @@ export default defineBackground(() => {
           controller.abort()
           controller = null
         }
+        // 后台任务不随面板关闭而中止，只移除监听
+        detachPort(port)
       })
 
       const safePostMessage = (msg: any) => {
@@ -559,46 +1449,146 @@ export default defineBackground(() => {
       }
 
       port.onMessage.addListener(async (msg) => {
+        // 重新打开的面板连接到运行中的任务
+        if (msg.action === "attachJob") {
+          const running = getJob(msg.cacheKey)
+          if (running) {
+            attachPort(running, port)
+          } else if (await takeInterruptedJob(msg.cacheKey)) {
+            // Service Worker 重启导致任务中断，已生成的部分已写入缓存
+            safePostMessage({ type: "interrupted" })
+          } else {
+            safePostMessage({ type: "noJob" })
+          }
+          return
+        }
+
+        if (msg.action === "cancelJob") {
+          await cancelJob(msg.cacheKey)
+          return
+        }
+
         // Abort previous request if new one comes on same port (unlikely but safe)
         if (controller) {
           controller.abort()
+          controller = null
+        }
+        // 总结和思维导图带有缓存键时作为后台任务运行，面板断开后继续生成并写入缓存
+        const job =
+          msg.cacheKey && JOB_ACTIONS.includes(msg.action)
+            ? startJob(msg.cacheKey, msg.action, port)
+            : null
+        if (!job) {
+          controller = new AbortController()
+        }
+        const signal = job ? job.controller.signal : controller!.signal
+        const post = (message: any) =>
+          job ? emitToJob(job, message) : safePostMessage(message)
+        // 生成结束：后台任务先写入缓存，再通知面板
+        const complete = async (result: StreamResult) => {
+          if (job) {
+            await saveJobResult(job, result)
+            finishJob(job)
+          }
+          post({ type: "done", ...result })
+          controller = null
+        }
+        const fail = (error: string) => {
+          if (signal.aborted) return
+          post({ type: "error", error })
+          if (job) finishJob(job)
+          controller = null
+        }
+        // 分段总结阶段的用量，最终结果中会与合并阶段的用量相加
+        let mapResult: StreamResult | null = null
+        // 任务可单独指定服务商和模型
+        const task = ACTION_TASKS[msg.action]
+
+        // 超长内容先分段总结，并向面板汇报进度
+        const summarizeLongContent = async (chunks: TranscriptChunk[]) => {
+          const { text, result } = await backgroundAIService.summarizeChunks(
+            chunks,
+            (current, total) => {
+              post({ type: "progress", stage: "map", current, total })
+            },
+            (reasoning) => {
+              post({ type: "chunk", content: null, reasoning })
+            },
+            signal,
+            task
+          )
+          post({ type: "progress", stage: "reduce" })
+          mapResult = result
+          return text
         }
-        controller = new AbortController()
-        const signal = controller.signal
 
         if (msg.action === "summarizeSubtitlesStream") {
           try {
-            const systemPrompt = await PROMPTS.SUBTITLE_SUMMARY_SYSTEM()
-            const userPrompt = PROMPTS.SUBTITLE_SUMMARY_USER(msg.subtitles)
+            const chunks = splitTranscript(msg.subtitles, msg.segments)
+            const content =
+              chunks.length > 1
+                ? PROMPTS.REDUCE_CONTENT(await summarizeLongContent(chunks))
+                : msg.subtitles
+            const prompts = await buildTaskPrompts("summary", {
+              content,
+              title: msg.title,
+              url: msg.url
+            })
 
             await backgroundAIService.streamAI(
-              systemPrompt,
-              userPrompt,
+              prompts.system,
+              prompts.user,
               (chunk) => {
-                safePostMessage({
+                post({
                   type: "chunk",
                   content: chunk.content,
                   reasoning: chunk.reasoning
                 })
               },
-              () => {
-                safePostMessage({ type: "done" })
-                controller = null
-              },
-              (error) => {
-                if (signal.aborted) return
-                safePostMessage({ type: "error", error })
-                controller = null
-              },
-              signal
+              (result) => complete(mergeResults(mapResult, result)),
+              fail,
+              signal,
+              undefined,
+              undefined,
+              task
             )
           } catch (error) {
-            if (signal.aborted) return
-            safePostMessage({
-              type: "error",
-              error: error instanceof Error ? error.message : String(error)
+            fail(error instanceof Error ? error.message : String(error))
+          }
+        }
+
+        if (msg.action === "chatStream") {
+          try {
+            const messages = msg.messages as ChatMessage[]
+            const prompts = await buildTaskPrompts("chat", {
+              content: await backgroundAIService.fitChatContent(
+                msg.content,
+                messages,
+                task
+              ),
+              title: msg.title,
+              url: msg.url
             })
-            controller = null
+
+            await backgroundAIService.streamAI(
+              prompts.system,
+              messages,
+              (chunk) => {
+                post({
+                  type: "chunk",
+                  content: chunk.content,
+                  reasoning: chunk.reasoning
+                })
+              },
+              complete,
+              fail,
+              signal,
+              undefined,
+              undefined,
+              task
+            )
+          } catch (error) {
+            fail(error instanceof Error ? error.message : String(error))
           }
         }
 
@@ -607,11 +1597,24 @@ export default defineBackground(() => {
           msg.action === "generateArticleMindmapStream"
         ) {
           try {
-            const mindmapPrompt = await PROMPTS.MINDMAP_SYSTEM()
-            const userPrompt =
-              msg.action === "generateMindmapStream"
-                ? PROMPTS.MINDMAP_VIDEO_USER(msg.subtitles, msg.title)
-                : PROMPTS.MINDMAP_ARTICLE_USER(msg.content, msg.title)
+            let prompts: { system: string; user: string }
+            if (msg.action === "generateMindmapStream") {
+              const chunks = splitTranscript(msg.subtitles, msg.segments)
+              prompts = await buildTaskPrompts("videoMindmap", {
+                content:
+                  chunks.length > 1
+                    ? PROMPTS.REDUCE_CONTENT(await summarizeLongContent(chunks))
+                    : msg.subtitles,
+                title: msg.title,
+                url: msg.videoUrl
+              })
+            } else {
+              prompts = await buildTaskPrompts("articleMindmap", {
+                content: msg.content,
+                title: msg.title,
+                url: msg.url
+              })
+            }
 
             // Build extra body fields for backend mindmap caching.
             // Only injected when using Mind Elixir model and a video URL is provided
@@ -625,38 +1628,27 @@ export default defineBackground(() => {
                 : undefined
 
             await backgroundAIService.streamAI(
-              mindmapPrompt,
-              userPrompt,
+              prompts.system,
+              prompts.user,
               (chunk) => {
-                safePostMessage({
+                post({
                   type: "chunk",
                   content: chunk.content,
                   reasoning: chunk.reasoning
                 })
               },
-              () => {
-                safePostMessage({ type: "done" })
-                controller = null
-              },
-              (error) => {
-                if (signal.aborted) return
-                safePostMessage({ type: "error", error })
-                controller = null
-              },
+              (result) => complete(mergeResults(mapResult, result)),
+              fail,
               signal,
               extraBodyFields,
               () => {
                 // Notify content script that this was a free generation
-                safePostMessage({ type: "freeGenerationUsed" })
-              }
+                post({ type: "freeGenerationUsed" })
+              },
+              task
             )
           } catch (error) {
-            if (signal.aborted) return
-            safePostMessage({
-              type: "error",
-              error: error instanceof Error ? error.message : String(error)
-            })
-            controller = null
+            fail(error instanceof Error ? error.message : String(error))
           }
         }
       })
@@ -0,0 +1,236 @@
+/**
+ * 后台生成任务
+ * 总结和思维导图由后台持有，面板关闭或页面跳转后仍会继续生成，完成后写入面板使用的缓存；
+ * 任务以缓存键（由视频 ID 或文章 URL 生成）区分，重新打开的面板可以重新连接到正在运行的任务。
+ * MV3 的 Service Worker 空闲时会被浏览器终止，任务运行期间定期把进度写入 session 存储，
+ * 既能保持 Service Worker 存活，也能在其意外重启后把已生成的部分保存为不完整的结果
+ */
+import { storage } from "@wxt-dev/storage"
+import { plaintextToMindElixir } from "mind-elixir/plaintextConverter"
+import { ResponseParser } from "~/utils/response-parser"
+import type { TokenUsage } from "~/utils/token-estimator"
+
+interface JobProgress {
+  stage: "map" | "reduce"
+  current?: number
+  total?: number
+}
+
+interface JobResult {
+  provider: string
+  usage: TokenUsage | null
+  cost: number | null
+}
+
+export interface GenerationJob {
+  // 面板的缓存键，例如 summary_BV1xx、mindmap_<videoId>
+  key: string
+  action: string
+  controller: AbortController
+  ports: Set<chrome.runtime.Port>
+  // 已生成的内容，用于重新连接时恢复显示以及停止时保存部分结果
+  content: string
+  reasoning: string
+  progress: JobProgress | null
+}
+
+// 写入 session 存储的任务进度
+type SavedJob = Pick<
+  GenerationJob,
+  "key" | "action" | "content" | "reasoning" | "progress"
+>
+
+const JOBS_STORAGE_KEY = "session:generationJobs"
+// Service Worker 空闲 30 秒后会被终止，保存间隔需要小于该值
+const PERSIST_INTERVAL = 10000
+
+const jobs = new Map<string, GenerationJob>()
+let persistTimer: ReturnType<typeof setInterval> | null = null
+// Service Worker 重启后恢复的中断任务，面板重新连接时通知其重新加载缓存
+const interruptedKeys = new Set<string>()
+let recovering: Promise<void> = Promise.resolve()
+
+const persistJobs = async () => {
+  const saved: SavedJob[] = [...jobs.values()].map(
+    ({ key, action, content, reasoning, progress }) => ({
+      key,
+      action,
+      content,
+      reasoning,
+      progress
+    })
+  )
+  try {
+    await storage.setItem(JOBS_STORAGE_KEY, saved)
+  } catch (error) {
+    console.error("保存任务进度失败:", error)
+  }
+}
+
+// 有任务运行时定期保存进度，全部结束后停止
+const updatePersistTimer = () => {
+  if (jobs.size > 0 && !persistTimer) {
+    persistTimer = setInterval(persistJobs, PERSIST_INTERVAL)
+  } else if (jobs.size === 0 && persistTimer) {
+    clearInterval(persistTimer)
+    persistTimer = null
+  }
+}
+
+const postToPort = (port: chrome.runtime.Port, msg: any) => {
+  try {
+    port.postMessage(msg)
+  } catch (e) {
+    // 面板已关闭，任务继续在后台运行
+    console.warn("Failed to post message to port (disconnected?):", e)
+  }
+}
+
+export function getJob(key: string): GenerationJob | undefined {
+  return jobs.get(key)
+}
+
+/**
+ * 创建任务；同一缓存键已有任务在运行时先中止旧任务（重新生成）
+ */
+export function startJob(
+  key: string,
+  action: string,
+  port: chrome.runtime.Port
+): GenerationJob {
+  jobs.get(key)?.controller.abort()
+  const job: GenerationJob = {
+    key,
+    action,
+    controller: new AbortController(),
+    ports: new Set([port]),
+    content: "",
+    reasoning: "",
+    progress: null
+  }
+  jobs.set(key, job)
+  updatePersistTimer()
+  return job
+}
+
+/**
+ * 面板重新连接到运行中的任务，先发送当前进度快照
+ */
+export function attachPort(job: GenerationJob, port: chrome.runtime.Port) {
+  job.ports.add(port)
+  postToPort(port, {
+    type: "snapshot",
+    action: job.action,
+    content: job.content,
+    reasoning: job.reasoning,
+    progress: job.progress
+  })
+}
+
+/**
+ * 面板断开时只移除监听，不中止任务
+ */
+export function detachPort(port: chrome.runtime.Port) {
+  jobs.forEach((job) => job.ports.delete(port))
+}
+
+/**
+ * 记录任务进度并转发给所有已连接的面板
+ */
+export function emitToJob(job: GenerationJob, msg: any) {
+  if (msg.type === "chunk") {
+    if (msg.content) {
+      job.content += msg.content
+      job.reasoning = ""
+      job.progress = null
+    } else if (msg.reasoning) {
+      job.reasoning += msg.reasoning
+    }
+  } else if (msg.type === "progress") {
+    job.reasoning = ""
+    job.progress = { stage: msg.stage, current: msg.current, total: msg.total }
+  }
+  job.ports.forEach((port) => postToPort(port, msg))
+}
+
+/**
+ * 任务结束（完成或失败）后移除；被新任务替换时不影响新任务
+ */
+export function finishJob(job: GenerationJob) {
+  if (jobs.get(job.key) === job) {
+    jobs.delete(job.key)
+    updatePersistTimer()
+    persistJobs()
+  }
+}
+
+/**
+ * 把任务结果写入面板使用的缓存
+ * @param incomplete 用户中途停止时为 true，保存的是部分结果
+ */
+export async function saveJobResult(
+  job: Pick<GenerationJob, "key" | "action" | "content">,
+  result?: JobResult,
+  incomplete = false
+) {
+  if (!job.content) return
+  const meta = {
+    timestamp: Date.now(),
+    ...result,
+    ...(incomplete && { incomplete })
+  }
+
+  try {
+    if (job.action === "summarizeSubtitlesStream") {
+      await storage.setItem(`local:${job.key}`, {
+        content: job.content,
+        ...meta
+      })
+    } else {
+      const mindmapData = plaintextToMindElixir(
+        ResponseParser.cleanMindmapResponse(job.content)
+      )
+      await storage.setItem(`local:${job.key}`, { mindmapData, ...meta })
+    }
+  } catch (error) {
+    console.error("保存生成结果失败:", error)
+  }
+}
+
+/**
+ * 用户主动停止任务：中止请求并保存已生成的部分
+ */
+export async function cancelJob(key: string) {
+  const job = jobs.get(key)
+  if (!job) return
+  job.controller.abort()
+  finishJob(job)
+  await saveJobResult(job, undefined, true)
+}
+
+/**
+ * Service Worker 启动时，把上次运行中被终止的任务已生成的部分保存为不完整的结果
+ */
+export function recoverInterruptedJobs() {
+  recovering = (async () => {
+    const saved = await storage.getItem<SavedJob[]>(JOBS_STORAGE_KEY)
+    if (!saved?.length) return
+    for (const job of saved) {
+      // 启动后新开始的任务不属于中断的任务
+      if (jobs.has(job.key)) continue
+      await saveJobResult(job, undefined, true)
+      interruptedKeys.add(job.key)
+    }
+    await persistJobs()
+  })().catch((error) => {
+    console.error("恢复中断的任务失败:", error)
+  })
+}
+
+/**
+ * 任务是否因 Service Worker 重启而中断；每个任务只通知一次
+ */
+export async function takeInterruptedJob(key: string): Promise<boolean> {
+  await recovering
+  return interruptedKeys.delete(key)
+}
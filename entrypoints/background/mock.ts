@@ -0,0 +1,206 @@
+/**
+ * 模拟服务商
+ * 不访问网络，按 OpenAI 兼容的 SSE 格式流式返回根据输入内容生成的总结、思维导图或问答，
+ * 供开发、测试和演示使用。通过模型名选择场景：正常输出、带思考过程输出，或模拟 401/402/429 错误
+ */
+import type { AITask } from "~/utils/ai-service"
+import { sleep } from "~/utils/retry"
+import { estimateTokens } from "~/utils/token-estimator"
+
+interface MockRequest {
+  model: string
+  // 包含系统提示词的完整消息列表（OpenAI 格式）
+  messages: { role: string; content: string }[]
+  task?: AITask
+}
+
+// 每个分片的字符数和间隔，模拟真实的流式输出节奏
+const CHUNK_SIZE = 12
+const CHUNK_DELAY = 40
+const REASONING_CHUNK_DELAY = 25
+
+const MOCK_ERRORS: Record<string, { status: number; message: string }> = {
+  "mock-error-401": { status: 401, message: "Invalid API key (mock)" },
+  "mock-error-402": { status: 402, message: "Insufficient balance (mock)" },
+  "mock-error-429": { status: 429, message: "Rate limit exceeded (mock)" }
+}
+
+const FALLBACK_SENTENCES = [
+  "This is mock content generated offline for development and demos.",
+  "No API key or network access is required.",
+  "Switch to a real provider in the options page to get actual results."
+]
+
+/**
+ * 从提示词中提取原始内容的句子：模板文字较短，最长的一行通常就是字幕或文章内容
+ */
+const extractSentences = (text: string, limit: number): string[] => {
+  const longestLine = text
+    .split("\n")
+    .reduce(
+      (longest, line) => (line.length > longest.length ? line : longest),
+      ""
+    )
+  const sentences = longestLine
+    .split(/(?<=[。！？.!?])\s*|\n/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length > 4)
+    .slice(0, limit)
+    .map((sentence) =>
+      sentence.length > 80 ? `${sentence.slice(0, 80)}…` : sentence
+    )
+  return sentences.length > 0 ? sentences : FALLBACK_SENTENCES
+}
+
+const buildSummary = (sentences: string[]) =>
+  `## Summary (mock)
+
+${sentences.slice(0, 2).join(" ")}
+
+### Key Points
+
+${sentences.map((sentence) => `- ${sentence}`).join("\n")}
+
+### Topics
+
+\`mock\` \`demo\``
+
+const buildMindmap = (sentences: string[]) => {
+  const [root, ...rest] = sentences
+  const points = rest.length > 0 ? rest : FALLBACK_SENTENCES
+  const half = Math.ceil(points.length / 2)
+  return [
+    `- ${root.slice(0, 40)}`,
+    "  - Key Points [^p1]",
+    ...points.slice(0, half).map((point) => `    - ${point}`),
+    "  - Details [^p2]",
+    ...points.slice(half).map((point) => `    - ${point}`),
+    "  - } Mock mindmap",
+    "  - > [^p1] >-expands-> [^p2]"
+  ].join("\n")
+}
+
+const buildChatReply = (question: string, sentences: string[]) =>
+  `This is a mock answer to "${question.slice(0, 60)}".
+
+The content mentions:
+
+${sentences
+  .slice(0, 3)
+  .map((sentence) => `> ${sentence}`)
+  .join("\n\n")}`
+
+const isMindmapTask = (task?: AITask) =>
+  task === "videoMindmap" || task === "articleMindmap"
+
+const buildReasoning = (task?: AITask) =>
+  `Reading the provided content and identifying the main ideas. ` +
+  `Planning the ${isMindmapTask(task) ? "mindmap structure" : "response"} ` +
+  `and checking that every point is grounded in the source.`
+
+const buildContent = (request: MockRequest): string => {
+  const { messages, task } = request
+  const system = messages.find((message) => message.role === "system")
+  const userMessages = messages.filter((message) => message.role === "user")
+  const lastUser = userMessages[userMessages.length - 1]?.content || ""
+
+  if (task === "chat") {
+    // 问答的内容在系统提示词中
+    return buildChatReply(lastUser, extractSentences(system?.content || "", 6))
+  }
+  const sentences = extractSentences(lastUser, 6)
+  if (isMindmapTask(task)) {
+    return buildMindmap(sentences)
+  }
+  return buildSummary(sentences)
+}
+
+const split = (text: string) => {
+  const pieces: string[] = []
+  for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+    pieces.push(text.slice(i, i + CHUNK_SIZE))
+  }
+  return pieces
+}
+
+const sseLine = (data: unknown) => `data: ${JSON.stringify(data)}\n\n`
+
+/**
+ * 生成模拟响应；错误场景返回对应状态码，其余场景返回可被中止的 SSE 流
+ */
+export function createMockResponse(
+  request: MockRequest,
+  signal?: AbortSignal
+): Response {
+  const error = MOCK_ERRORS[request.model]
+  if (error) {
+    return new Response(
+      JSON.stringify({ error: { message: error.message } }),
+      {
+        status: error.status,
+        headers: {
+          "Content-Type": "application/json",
+          ...(error.status === 429 && { "Retry-After": "1" })
+        }
+      }
+    )
+  }
+
+  const content = buildContent(request)
+  const reasoning =
+    request.model === "mock-reasoning" ? buildReasoning(request.task) : ""
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for (const piece of split(reasoning)) {
+          await sleep(REASONING_CHUNK_DELAY, signal)
+          controller.enqueue(
+            encoder.encode(
+              sseLine({
+                model: request.model,
+                choices: [{ delta: { reasoning_content: piece } }]
+              })
+            )
+          )
+        }
+        for (const piece of split(content)) {
+          // 加一点随机抖动，更接近真实服务商
+          await sleep(CHUNK_DELAY + Math.random() * CHUNK_DELAY, signal)
+          controller.enqueue(
+            encoder.encode(
+              sseLine({
+                model: request.model,
+                choices: [{ delta: { content: piece } }]
+              })
+            )
+          )
+        }
+        const prompt = request.messages
+          .map((message) => message.content)
+          .join("\n")
+        controller.enqueue(
+          encoder.encode(
+            sseLine({
+              choices: [],
+              usage: {
+                prompt_tokens: estimateTokens(prompt),
+                completion_tokens: estimateTokens(reasoning + content)
+              }
+            })
+          )
+        )
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"))
+        controller.close()
+      } catch (e) {
+        controller.error(e)
+      }
+    }
+  })
+
+  return new Response(stream, {
+    status: 200,
+    headers: { "Content-Type": "text/event-stream" }
+  })
+}
@@ -1,10 +1,16 @@
 /**
  * AI提示词配置文件
- * 包含所有用于AI分析的系统提示词和用户提示词模板
+ * 可自定义的任务模板见 utils/prompt-templates.ts，此处负责渲染模板及长内容分段用的固定提示词
  */
 import { storage } from "@wxt-dev/storage"
+import { OMITTED_MARKER } from "./chunking"
 import { getMatchedBrowserLanguage } from "~/utils/i18n"
 import type { AIConfig } from "~/utils/ai-service"
+import {
+  getPromptTemplate,
+  renderTemplate,
+  type PromptTask
+} from "~/utils/prompt-templates"
 
 // 语言映射表
 const LANGUAGE_MAP: Record<string, string> = {
@@ -36,100 +42,69 @@ async function getReplyLanguage(): Promise<string> {
   }
 }
 
+export interface TaskPromptInput {
+  content: string
+  title?: string
+  url?: string
+}
+
+/**
+ * 按任务渲染系统提示词和用户提示词（优先使用用户自定义模板）
+ */
+export async function buildTaskPrompts(
+  task: PromptTask,
+  input: TaskPromptInput
+): Promise<{ system: string; user: string }> {
+  const [template, language] = await Promise.all([
+    getPromptTemplate(task),
+    getReplyLanguage()
+  ])
+  const variables = { ...input, language }
+  return {
+    system: renderTemplate(template.system, variables),
+    user: template.user ? renderTemplate(template.user, variables) : ""
+  }
+}
+
 export const PROMPTS = {
   /**
-   * 字幕总结的系统提示词
+   * 长内容分段总结的系统提示词（map 阶段）
    */
-  SUBTITLE_SUMMARY_SYSTEM: async () => {
+  CHUNK_SUMMARY_SYSTEM: async () => {
     const language = await getReplyLanguage()
-    return `你是一个知识提取专家。请仔细分析用户提供的内容，并按照以下要求生成结构化的分析结果：
+    return `你是一个知识提取专家。用户提供的是一段较长内容中的一个片段，请提炼该片段的要点，供后续合并成完整的总结。
 
-**分析要求：**
-1. **总结**：生成500-1000字的精炼总结，概括视频的核心内容 and 主要观点。
-2. **关键要点**：提取3-8个最重要的知识点或观点，每个要点简洁明了，使用列表形式。
-3. **主要话题**：识别2-6个核心话题标签，便于分类和检索。
-
-**输出格式：**
-请直接使用**Markdown**格式输出，不要包含任何JSON结构或其他无关内容。
+**提炼要求：**
+1. 使用简洁的Markdown列表，按内容出现的顺序列出要点。
+2. 保留关键事实、数据、术语、例子和结论，不要遗漏重要信息。
+3. 不要写开场白或总结语，不要推测片段之外的内容。
 
 **注意事项：**
 - 保证输出全文的语言都为${language}
-- 保持客观和准确
-- 避免重复内容`
+- 保持客观和准确`
   },
 
   /**
-   * 字幕总结的用户提示词模板
+   * 长内容分段总结的用户提示词模板（map 阶段）
    */
-  SUBTITLE_SUMMARY_USER: (subtitles: string) =>
-    `请分析以下内容：
-
-**字幕内容：**
-${subtitles}
+  CHUNK_SUMMARY_USER: (chunk: string, label: string) =>
+    `以下是完整内容的第 ${label} 段，请提炼要点：
 
-请按照系统要求生成结构化的分析结果。`,
+${chunk}`,
 
   /**
-   * 思维导图的系统提示词
+   * 分段要点合并后的内容（reduce 阶段），作为任务模板中的 {{content}}
    */
-  MINDMAP_SYSTEM: async () => {
-    const language = await getReplyLanguage()
-    return `
-You are a mindmap generator.
-CRITICAL CONSTRAINT: You MUST write the entire mindmap content (including all node texts, summary texts, and relation labels) strictly in the target language: ${language}.
-
-You should output the mindmap in a specific plaintext format that can be parsed line by line.
-
-Format Definition:
-- Core Topic Title
-  - Main Point A
-    - Detail A-1
-    - Detail A-2
-    - }:2 Summary of previous 2 nodes
-  - Main Point B [^id1]
-    - Sub-point B-1 {"color": "#e87a90"}
-    - Sub-point B-2 {"background": "#ecf0f1", "color": "#333333"}
-    - Sub-point B-3 [^id2]
-    - } Summary of all previous siblings
-  - > [^id1] <-Relation-> [^id2]
-
-Rules:
-1. The root node (zero indentation) MUST be the core topic extracted from the content. NEVER use generic placeholders like "Root" as the root text. There MUST be exactly one unique root node at the beginning. The entire content MUST stem from this single root. Multiple nodes at zero indentation are STRICTLY FORBIDDEN. The root node MUST also start with "- " just like every other node — e.g. "- Core Topic Title".
-2. Use indentation (exactly 2 spaces per level) to represent hierarchy.
-3. Every node line MUST start with "- " (dash followed by a space).
-4. Use "[^id]" at the end of a node topic to define a unique ID for cross-referencing.
-5. Use JSON-like syntax at the end of a node topic for styling: {"color": "#hex", "background": "#hex", "fontSize": "16"}. Use this feature with extreme restraint. By default, do NOT add colors or background styles to standard nodes. Only apply styling to highly critical or special nodes that require strong visual emphasis.
-6. Summary nodes:
-   - Use "} Summary Text" to summarize ALL previous siblings at the same level.
-   - Use "}:n Summary Text" to summarize the previous n siblings at the same level.
-7. Relationship links (can be placed on any line):
-   - Bidirectional: "> [^id1] <-Label-> [^id2]"
-   - Unidirectional: "> [^id1] >-Label-> [^id2]"
-8. Language Requirement (CRITICAL):
-   - You MUST generate all output (node names, titles, labels, and summary texts) strictly in ${language}.
-   - Even if the input content (subtitles, transcript, or article) is in English or any other language, you MUST translate and summarize it into ${language}.
-   - Do NOT output English node names or labels unless they are proper nouns or code/technical terms that should not be translated.
-9. Do NOT wrap the output in markdown code blocks. Just valid plaintext.
-`
-  },
+  REDUCE_CONTENT: (partials: string) =>
+    `（内容较长，已按顺序分段提炼为多份要点摘要，请将它们视为一个整体）
 
-  /**
-   * 视频字幕思维导图用户提示词模板
-   */
-  MINDMAP_VIDEO_USER: (subtitles: string, title?: string) =>
-    `请根据以下内容生成思维导图：
-${title ? `\n标题：${title}\n` : ""}
-内容：
-${subtitles}`,
+${partials}`,
 
   /**
-   * 文章思维导图用户提示词模板
+   * 超出模型上下文时按问题选取的问答内容，作为 chat 模板中的 {{content}}
    */
-  MINDMAP_ARTICLE_USER: (content: string, title: string) =>
-    `请根据以下文章内容生成思维导图：
-
-标题：${title}
+  TRIMMED_CONTENT: (content: string) =>
+    `（内容过长，以下只保留了与问题最相关的片段，省略的部分已用“${OMITTED_MARKER}”标出；如果回答需要省略部分的信息，请说明无法确认）
 
-内容：
 ${content}`
 } as const
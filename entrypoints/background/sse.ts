@@ -0,0 +1,83 @@
+/**
+ * Server-Sent Events 解码
+ * 按 WHATWG 规范解析事件流：支持 event/id 字段、以冒号开头的注释（如 OpenRouter 的保活消息）、
+ * 多行 data 以及 \r\n、\r、\n 三种换行
+ */
+
+export interface SSEEvent {
+  // 未指定 event 字段时为 "message"
+  event: string
+  data: string
+  id: string
+}
+
+const LINE_BREAK = /\r\n|\r|\n/g
+
+export class SSEDecoder {
+  private buffer = ""
+  private dataLines: string[] = []
+  private eventType = ""
+  private lastEventId = ""
+
+  /**
+   * 追加一段已解码的文本，返回其中完整的事件
+   * 流结束时尚未以空行结尾的事件按规范丢弃
+   */
+  push(text: string): SSEEvent[] {
+    this.buffer += text
+    const events: SSEEvent[] = []
+    let start = 0
+
+    LINE_BREAK.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = LINE_BREAK.exec(this.buffer))) {
+      // 末尾的 \r 可能和下一段开头的 \n 组成 \r\n，等收到更多数据再处理
+      if (match[0] === "\r" && match.index === this.buffer.length - 1) break
+      const event = this.processLine(this.buffer.slice(start, match.index))
+      if (event) events.push(event)
+      start = match.index + match[0].length
+    }
+
+    this.buffer = this.buffer.slice(start)
+    return events
+  }
+
+  private processLine(line: string): SSEEvent | null {
+    if (line === "") return this.dispatch()
+    // 注释行，服务商用于保持连接
+    if (line.startsWith(":")) return null
+
+    const colon = line.indexOf(":")
+    const field = colon === -1 ? line : line.slice(0, colon)
+    let value = colon === -1 ? "" : line.slice(colon + 1)
+    if (value.startsWith(" ")) value = value.slice(1)
+
+    switch (field) {
+      case "data":
+        this.dataLines.push(value)
+        break
+      case "event":
+        this.eventType = value
+        break
+      case "id":
+        if (!value.includes("\0")) this.lastEventId = value
+        break
+      // retry 和未知字段忽略
+    }
+    return null
+  }
+
+  private dispatch(): SSEEvent | null {
+    const eventType = this.eventType
+    const dataLines = this.dataLines
+    this.eventType = ""
+    this.dataLines = []
+    if (dataLines.length === 0) return null
+
+    return {
+      event: eventType || "message",
+      data: dataLines.join("\n"),
+      id: this.lastEventId
+    }
+  }
+}
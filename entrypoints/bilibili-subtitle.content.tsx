@@ -2,6 +2,12 @@ import ReactDOM from "react-dom/client"
 import { useEffect, useState } from "react"
 import { SubtitlePanel } from "~/components/SubtitlePanel"
 import { t } from "~/utils/i18n"
+import { fetchWithRetry } from "~/utils/retry"
+import {
+  getPreferredSubtitleLanguage,
+  selectDefaultTrack,
+  type SubtitleTrack
+} from "~/utils/subtitle-utils"
 import mainStyles from "@/assets/style.css?inline"
 import elixirStyles from "mind-elixir/style.css?inline"
 import overrideStyles from "@/assets/mind-elixir-override.css?inline"
@@ -13,10 +19,16 @@ interface SubtitleItem {
   content: string
 }
 
+interface BilibiliSubtitleTrack extends SubtitleTrack {
+  url: string
+}
+
 interface VideoInfo {
   bvid: string
   cid: number
   title: string
+  // 分P视频的当前分P，从1开始
+  page?: number
 }
 
 function BilibiliSubtitlePanel() {
@@ -25,7 +37,11 @@ function BilibiliSubtitlePanel() {
   const [error, setError] = useState<string | null>(null)
   const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null)
   const [isVisible, setIsVisible] = useState(false)
-  const [currentBvid, setCurrentBvid] = useState<string | null>(null)
+  // 当前加载的视频，分P视频包含分P序号，番剧为 ep_id 或 season_id
+  const [currentVideoKey, setCurrentVideoKey] = useState<string | null>(null)
+  const [tracks, setTracks] = useState<BilibiliSubtitleTrack[]>([])
+  const [selectedTrackId, setSelectedTrackId] = useState<string | null>(null)
+  const [defaultTrackId, setDefaultTrackId] = useState<string | null>(null)
 
   // 从URL中提取BVID
   const extractBVID = (): string | null => {
@@ -40,8 +56,46 @@ function BilibiliSubtitlePanel() {
     return bvidMatch ? bvidMatch[1] : null
   }
 
+  // 从URL的 p 参数中提取分P序号，默认第1P
+  const extractPage = (): number => {
+    const page = Number(new URL(window.location.href).searchParams.get("p"))
+    return Number.isInteger(page) && page > 0 ? page : 1
+  }
+
+  const getVideoKey = (bvid: string, page: number) => `${bvid}_p${page}`
+
+  // 从番剧、纪录片等页面的URL中提取 ep123 或 ss123
+  const extractBangumiId = (): string | null => {
+    const match = window.location.pathname.match(
+      /\/bangumi\/play\/((?:ep|ss)\d+)/
+    )
+    return match ? match[1] : null
+  }
+
+  // 解析当前页面对应的视频
+  const getCurrentVideo = () => {
+    const bangumiId = extractBangumiId()
+    if (bangumiId) {
+      return {
+        key: bangumiId,
+        fetchInfo: () => fetchBangumiInfo(bangumiId)
+      }
+    }
+
+    const bvid = extractBVID()
+    if (!bvid) return null
+    const page = extractPage()
+    return {
+      key: getVideoKey(bvid, page),
+      fetchInfo: () => fetchVideoInfo(bvid, page)
+    }
+  }
+
   // 获取视频信息
-  const fetchVideoInfo = async (bvid: string): Promise<VideoInfo | null> => {
+  const fetchVideoInfo = async (
+    bvid: string,
+    page: number
+  ): Promise<VideoInfo | null> => {
     try {
       const response = await fetch(
         `https://api.bilibili.com/x/web-interface/view?bvid=${bvid}`
@@ -49,6 +103,18 @@ function BilibiliSubtitlePanel() {
       const data = await response.json()
 
       if (data.code === 0 && data.data) {
+        // data.cid 是第1P的cid，分P视频需要从 pages 中查找当前分P
+        const pages: { cid: number; page: number; part: string }[] =
+          data.data.pages || []
+        const current = pages.find((item) => item.page === page)
+        if (pages.length > 1 && current) {
+          return {
+            bvid: bvid,
+            cid: current.cid,
+            title: `${data.data.title} - P${current.page} ${current.part}`,
+            page: current.page
+          }
+        }
         return {
           bvid: bvid,
           cid: data.data.cid,
@@ -62,11 +128,119 @@ function BilibiliSubtitlePanel() {
     }
   }
 
+  // 通过 PGC 接口把番剧的 ep_id / season_id 解析为剧集的 bvid 和 cid
+  const fetchBangumiInfo = async (
+    bangumiId: string
+  ): Promise<VideoInfo | null> => {
+    try {
+      const id = bangumiId.slice(2)
+      const query = bangumiId.startsWith("ep")
+        ? `ep_id=${id}`
+        : `season_id=${id}`
+      const response = await fetch(
+        `https://api.bilibili.com/pgc/view/web/season?${query}`,
+        { credentials: "include" }
+      )
+      const data = await response.json()
+
+      if (data.code !== 0 || !data.result) {
+        return null
+      }
+
+      const result = data.result
+      // 正片在 episodes 中，花絮、PV 等在 section 中
+      const episodes: any[] = [
+        ...(result.episodes || []),
+        ...(result.section || []).flatMap(
+          (section: any) => section.episodes || []
+        )
+      ]
+      // 只有 season_id 时取观看进度中的剧集，没有进度则取第一集
+      const epId = bangumiId.startsWith("ep")
+        ? Number(id)
+        : result.user_status?.progress?.last_ep_id
+      const episode =
+        episodes.find((item) => (item.ep_id ?? item.id) === epId) ||
+        episodes[0]
+      if (!episode?.bvid) {
+        return null
+      }
+
+      const episodeTitle =
+        episode.show_title ||
+        [episode.title, episode.long_title].filter(Boolean).join(" ")
+      return {
+        bvid: episode.bvid,
+        cid: episode.cid,
+        title: `${result.season_title || result.title} - ${episodeTitle}`
+      }
+    } catch (error) {
+      console.error(t("getVideoInfoFailed"), error)
+      return null
+    }
+  }
+
   // 获取用户cookies和必要的认证信息
   const getCookies = (): string => {
     return document.cookie
   }
 
+  // 下载指定轨道的字幕文件
+  const loadSubtitleTrack = async (track: BilibiliSubtitleTrack) => {
+    console.log("字幕文件URL:", track.url)
+    if (!track.url) {
+      setError(t("invalidSubtitleUrl"))
+      return
+    }
+
+    const fullSubtitleUrl = track.url.startsWith("http")
+      ? track.url
+      : `https:${track.url}`
+    console.log("完整字幕URL:", fullSubtitleUrl)
+
+    const subtitleResponse = await fetchWithRetry(
+      fullSubtitleUrl,
+      {
+        headers: {
+          Referer: "https://www.bilibili.com/",
+          Origin: "https://www.bilibili.com"
+        }
+      },
+      { retryNetworkErrors: true }
+    )
+
+    console.log("字幕文件响应状态:", subtitleResponse.status)
+    const subtitleData = await subtitleResponse.json()
+    console.log("字幕数据:", subtitleData)
+
+    if (subtitleData.body && Array.isArray(subtitleData.body)) {
+      setSubtitles(subtitleData.body)
+      console.log(`字幕加载成功，共 ${subtitleData.body.length} 条`)
+    } else {
+      console.error("字幕数据不是数组格式:", subtitleData.body)
+      setError(t("subtitleFormatError"))
+    }
+  }
+
+  // 切换字幕轨道
+  const handleSelectTrack = async (trackId: string) => {
+    const track = tracks.find((item) => item.id === trackId)
+    if (!track || trackId === selectedTrackId) return
+
+    setSelectedTrackId(trackId)
+    setSubtitles([])
+    setError(null)
+    setLoading(true)
+    try {
+      await loadSubtitleTrack(track)
+    } catch (error) {
+      console.error(t("loadSubtitleContentFailed"), error)
+      setError(t("loadSubtitleContentFailed") + " " + (error as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }
+
   // 获取字幕数据
   const fetchSubtitles = async (bvid: string, cid: number) => {
     try {
@@ -94,11 +268,15 @@ function BilibiliSubtitlePanel() {
       const playerUrl = `https://api.bilibili.com/x/player/wbi/v2?bvid=${bvid}&cid=${cid}&qn=64&fnver=0&fnval=4048&fourk=1`
       console.log("请求URL:", playerUrl)
 
-      const playerResponse = await fetch(playerUrl, {
-        method: "GET",
-        headers: headers,
-        credentials: "include"
-      })
+      const playerResponse = await fetchWithRetry(
+        playerUrl,
+        {
+          method: "GET",
+          headers: headers,
+          credentials: "include"
+        },
+        { retryNetworkErrors: true }
+      )
 
       console.log("播放器API响应状态:", playerResponse.status)
       const playerData = await playerResponse.json()
@@ -113,44 +291,31 @@ function BilibiliSubtitlePanel() {
       const subtitleList = playerData.data?.subtitle?.subtitles
       console.log("字幕列表:", subtitleList)
 
-      // 获取第一个字幕文件
       if (!subtitleList || subtitleList.length === 0) {
         setError(t("noSubtitleOrLoginRequired"))
         return
       }
 
-      const subtitleUrl = subtitleList[0].subtitle_url
-      console.log("字幕文件URL:", subtitleUrl)
-
-      if (!subtitleUrl) {
-        setError(t("invalidSubtitleUrl"))
-        return
-      }
-
-      // 下载字幕文件
-      const fullSubtitleUrl = subtitleUrl.startsWith("http")
-        ? subtitleUrl
-        : `https:${subtitleUrl}`
-      console.log("完整字幕URL:", fullSubtitleUrl)
-
-      const subtitleResponse = await fetch(fullSubtitleUrl, {
-        headers: {
-          Referer: "https://www.bilibili.com/",
-          Origin: "https://www.bilibili.com"
-        }
-      })
-
-      console.log("字幕文件响应状态:", subtitleResponse.status)
-      const subtitleData = await subtitleResponse.json()
-      console.log("字幕数据:", subtitleData)
-
-      if (subtitleData.body && Array.isArray(subtitleData.body)) {
-        setSubtitles(subtitleData.body)
-        console.log(`字幕加载成功，共 ${subtitleData.body.length} 条`)
-      } else {
-        console.error("字幕数据不是数组格式:", subtitleData.body)
-        setError(t("subtitleFormatError"))
-      }
+      const trackList: BilibiliSubtitleTrack[] = subtitleList.map(
+        (item: any) => ({
+          id: String(item.id_str || item.id),
+          // AI 字幕的语言代码形如 ai-zh
+          lang: item.lan.replace(/^ai-/, ""),
+          label: item.lan_doc || item.lan,
+          auto: item.lan.startsWith("ai-"),
+          url: item.subtitle_url
+        })
+      )
+      const track = selectDefaultTrack(
+        trackList,
+        await getPreferredSubtitleLanguage()
+      )!
+      console.log("默认字幕轨道:", track)
+      setTracks(trackList)
+      setSelectedTrackId(track.id)
+      setDefaultTrackId(track.id)
+
+      await loadSubtitleTrack(track)
     } catch (error) {
       console.error(t("fetchSubtitlesFailed"), error)
       setError(t("noSubtitleOrLoginRequired") + " " + (error as Error).message)
@@ -173,17 +338,22 @@ function BilibiliSubtitlePanel() {
   }
 
   // 加载视频字幕
-  const loadVideoSubtitles = async (bvid: string) => {
-    if (bvid === currentBvid) {
+  const loadVideoSubtitles = async (
+    video: NonNullable<ReturnType<typeof getCurrentVideo>>
+  ) => {
+    if (video.key === currentVideoKey) {
       return // 相同视频，不重复加载
     }
 
-    console.log("检测到新视频，BVID:", bvid)
-    setCurrentBvid(bvid)
+    console.log("检测到新视频:", video.key)
+    setCurrentVideoKey(video.key)
     setSubtitles([]) // 清空旧字幕
+    setTracks([])
+    setSelectedTrackId(null)
+    setDefaultTrackId(null)
     setError(null)
 
-    const info = await fetchVideoInfo(bvid)
+    const info = await video.fetchInfo()
     if (info) {
       setVideoInfo(info)
       await fetchSubtitles(info.bvid, info.cid)
@@ -192,9 +362,9 @@ function BilibiliSubtitlePanel() {
 
   useEffect(() => {
     // 初始加载
-    const bvid = extractBVID()
-    if (bvid) {
-      loadVideoSubtitles(bvid)
+    const video = getCurrentVideo()
+    if (video) {
+      loadVideoSubtitles(video)
     }
 
     // 监听URL变化（Bilibili是SPA，需要监听pushState/replaceState）
@@ -203,10 +373,11 @@ function BilibiliSubtitlePanel() {
       const currentUrl = window.location.href
       if (currentUrl !== lastUrl) {
         lastUrl = currentUrl
-        const newBvid = extractBVID()
-        if (newBvid && newBvid !== currentBvid) {
-          console.log("URL变化，检测到新BVID:", newBvid)
-          loadVideoSubtitles(newBvid)
+        // 切换分P时BVID不变，只有 p 参数变化；番剧切换剧集时 ep_id 变化
+        const newVideo = getCurrentVideo()
+        if (newVideo && newVideo.key !== currentVideoKey) {
+          console.log("URL变化，检测到新视频:", newVideo.key)
+          loadVideoSubtitles(newVideo)
         }
       }
     }
@@ -233,7 +404,7 @@ function BilibiliSubtitlePanel() {
       window.removeEventListener("popstate", checkUrlChange)
       chrome.runtime.onMessage.removeListener(messageListener)
     }
-  }, [currentBvid])
+  }, [currentVideoKey])
 
   if (!isVisible) {
     return null
@@ -251,13 +422,14 @@ function BilibiliSubtitlePanel() {
     ? {
         bvid: videoInfo.bvid,
         cid: videoInfo.cid,
-        title: videoInfo.title
+        title: videoInfo.title,
+        page: videoInfo.page
       }
     : null
 
   return (
     <SubtitlePanel
-      key={videoInfo?.bvid || 'no-video'}
+      key={videoInfo ? `${videoInfo.bvid}_${videoInfo.cid}` : 'no-video'}
       subtitles={convertedSubtitles}
       loading={loading}
       error={error}
@@ -265,6 +437,10 @@ function BilibiliSubtitlePanel() {
       onJumpToTime={jumpToTime}
       platform="bilibili"
       onClose={handleClose}
+      tracks={tracks}
+      selectedTrackId={selectedTrackId}
+      defaultTrackId={defaultTrackId}
+      onSelectTrack={handleSelectTrack}
     />
   )
 }
@@ -272,7 +448,9 @@ function BilibiliSubtitlePanel() {
 export default defineContentScript({
   matches: [
     "https://www.bilibili.com/video/*",
-    "https://www.bilibili.com/list/watchlater*"
+    "https://www.bilibili.com/list/watchlater*",
+    "https://www.bilibili.com/bangumi/play/*",
+    "https://www.bilibili.com/festival/*"
   ],
   async main(ctx) {
     console.log("Bilibili content script main started");
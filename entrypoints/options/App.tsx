@@ -1,11 +1,26 @@
-import { Check, Star, RefreshCw, LogOut, LogIn, User } from "lucide-react"
+import {
+  ArrowDown,
+  ArrowUp,
+  Check,
+  Star,
+  RefreshCw,
+  LogOut,
+  LogIn,
+  Plus,
+  Trash2,
+  User,
+  X
+} from "lucide-react"
 import { useEffect, useState, useRef } from "react"
 import { storage } from "@wxt-dev/storage"
 import iconBase64 from "~/assets/icon.png"
 
 import { Button } from "~/components/ui/button"
+import { Checkbox } from "~/components/ui/checkbox"
 import { Input } from "~/components/ui/input"
 import { Label } from "~/components/ui/label"
+import { ApiKeyEncryption } from "~/components/ApiKeyEncryption"
+import { PromptTemplateEditor } from "~/components/PromptTemplateEditor"
 import {
   Select,
   SelectContent,
@@ -15,8 +30,34 @@ import {
 } from "~/components/ui/select"
 import { cn } from "~/lib/utils"
 import { t, getMatchedBrowserLanguage } from "~/utils/i18n"
-import type { AIConfig, ProviderConfig } from "~/utils/ai-service"
-import { DEFAULT_MIND_ELIXIR_PROVIDER } from "~/utils/ai-service"
+import {
+  addProfile,
+  applyProfile,
+  removeActiveProfile
+} from "~/utils/provider-profiles"
+import type {
+  AIConfig,
+  AITask,
+  ConnectionTestResult,
+  GenerationSettings,
+  ProviderConfig,
+  TaskModelOverride
+} from "~/utils/ai-service"
+import {
+  AZURE_DEFAULT_API_VERSION,
+  DEFAULT_MIND_ELIXIR_PROVIDER,
+  DEFAULT_THINKING_BUDGET,
+  MOCK_MODELS,
+  THINKING_PROVIDERS,
+  hasApiKey,
+  isLocalProvider
+} from "~/utils/ai-service"
+import {
+  getVaultState,
+  loadAIConfig,
+  saveAIConfig,
+  type VaultState
+} from "~/utils/api-key-vault"
 
 interface AIProvider {
   id: string
@@ -58,9 +99,40 @@ const AI_PROVIDERS: AIProvider[] = [
     name: "OpenAI Compatible API",
     baseUrl: "https://api.example.com/v1",
     modelsEndpoint: "/models"
+  },
+  {
+    id: "azure-openai",
+    name: "Azure OpenAI"
+  },
+  {
+    id: "ollama",
+    name: "Ollama (Local)",
+    baseUrl: "http://localhost:11434",
+    modelsEndpoint: "/api/tags"
+  },
+  {
+    id: "llama-cpp",
+    name: "llama.cpp (Local)",
+    baseUrl: "http://localhost:8080/v1",
+    modelsEndpoint: "/models"
+  },
+  {
+    id: "mock",
+    name: "Mock (Development)"
   }
 ]
 
+// 可单独指定服务商和模型的任务
+const TASK_OPTIONS: { id: AITask; label: string }[] = [
+  { id: "summary", label: "promptTaskSummary" },
+  { id: "videoMindmap", label: "promptTaskVideoMindmap" },
+  { id: "articleMindmap", label: "promptTaskArticleMindmap" },
+  { id: "chat", label: "promptTaskChat" }
+]
+
+// 任务使用默认服务商时 Select 的取值
+const DEFAULT_TASK_PROVIDER = "default"
+
 const REPLY_LANGUAGES = [
   { id: "en", name: "English" },
   { id: "zh-CN", name: "中文" },
@@ -93,11 +165,22 @@ function OptionsPage() {
   })
   const [saving, setSaving] = useState(false)
   const [saved, setSaved] = useState(false)
+  // 保存失败的原因（例如加密已锁定时无法保存 API Key）
+  const [saveError, setSaveError] = useState<string | null>(null)
   const [availableModels, setAvailableModels] = useState<{
     [key: string]: string[]
   }>({})
   const [fetchingModels, setFetchingModels] = useState(false)
+  // 正在编辑生成参数的任务
+  const [generationTask, setGenerationTask] = useState<AITask>("summary")
   const [modelDropdownOpen, setModelDropdownOpen] = useState(false)
+  const [vaultState, setVaultState] = useState<VaultState>({
+    enabled: false,
+    locked: false
+  })
+  const [testingConnection, setTestingConnection] = useState(false)
+  const [connectionTest, setConnectionTest] =
+    useState<ConnectionTestResult | null>(null)
   const modelInputRef = useRef<HTMLInputElement>(null)
 
   const [user, setUser] = useState<UserData | null>(null)
@@ -210,7 +293,10 @@ function OptionsPage() {
 
   const loadConfig = async () => {
     try {
-      const config = await storage.getItem<AIConfig>("local:aiConfigV2")
+      setSaveError(null)
+      setVaultState(await getVaultState())
+      // 开启加密且已解锁时返回解密后的 API Key
+      const config = await loadAIConfig()
       if (config) {
         if (!config.replyLanguage || config.replyLanguage === "auto") {
           config.replyLanguage = getMatchedBrowserLanguage(navigator.language)
@@ -220,8 +306,8 @@ function OptionsPage() {
         // 如果有API Key且支持获取模型，尝试获取模型列表
         const provider = AI_PROVIDERS.find((p) => p.id === config.activeProvider)
         const providerCfg = config.providers[config.activeProvider]
-        if (provider && providerCfg?.apiKey) {
-          fetchModels(provider, providerCfg.apiKey, providerCfg.baseUrl).then((models) => {
+        if (provider && (providerCfg?.apiKey || isLocalProvider(provider.id))) {
+          fetchModels(provider, providerCfg?.apiKey || "", providerCfg?.baseUrl).then((models) => {
             setAvailableModels((prev) => ({
               ...prev,
               [provider.id]: models
@@ -237,12 +323,14 @@ function OptionsPage() {
   const saveConfig = async () => {
     try {
       setSaving(true)
+      setSaveError(null)
 
-      await storage.setItem("local:aiConfigV2", aiConfig)
+      await saveAIConfig(aiConfig)
       setSaved(true)
       setTimeout(() => setSaved(false), 2000)
     } catch (error) {
       console.error(t("saveConfigFailed"), error)
+      setSaveError(error instanceof Error ? error.message : t("saveConfigFailed"))
     } finally {
       setSaving(false)
     }
@@ -260,7 +348,10 @@ function OptionsPage() {
       }
     }
     setAiConfig(updated)
-    storage.setItem("local:aiConfigV2", updated)
+    saveAIConfig(updated).catch((error) => {
+      console.error(t("saveConfigFailed"), error)
+      setSaveError(error instanceof Error ? error.message : t("saveConfigFailed"))
+    })
   }
 
   const fetchModels = async (
@@ -268,7 +359,11 @@ function OptionsPage() {
     apiKey: string,
     baseUrlOverride?: string
   ) => {
-    if (!provider.modelsEndpoint || !apiKey) {
+    // 模拟服务商的模型即测试场景
+    if (provider.id === "mock") {
+      return MOCK_MODELS
+    }
+    if (!provider.modelsEndpoint || (!apiKey && !isLocalProvider(provider.id))) {
       return []
     }
 
@@ -284,9 +379,13 @@ function OptionsPage() {
       if (
         provider.id === "openai" ||
         provider.id === "openai-compatible" ||
-        provider.id === "openrouter"
+        provider.id === "openrouter" ||
+        isLocalProvider(provider.id)
       ) {
-        headers["Authorization"] = `Bearer ${apiKey}`
+        // 本地服务的 API Key 是可选的
+        if (apiKey) {
+          headers["Authorization"] = `Bearer ${apiKey}`
+        }
       } else if (provider.id === "gemini") {
         // Gemini uses API key as query parameter and different endpoint
         const geminiUrl = `${provider.baseUrl}/models?key=${apiKey}`
@@ -305,6 +404,11 @@ function OptionsPage() {
       const response = await fetch(url, { headers })
       const data = await response.json()
 
+      // Ollama 的 /api/tags 返回 { models: [{ name }] }
+      if (provider.id === "ollama") {
+        return data.models?.map((m: any) => m.name) || []
+      }
+
       return data.data?.map((m: any) => m.id) || []
     } catch (error) {
       console.error(t("fetchModelsFailed"), error)
@@ -340,8 +444,8 @@ function OptionsPage() {
 
       // 如果有API Key，尝试获取模型列表
       const apiKey = aiConfig.providers[providerId]?.apiKey
-      if (apiKey) {
-        fetchModels(provider, apiKey, newBaseUrl).then((models) => {
+      if (apiKey || isLocalProvider(providerId)) {
+        fetchModels(provider, apiKey || "", newBaseUrl).then((models) => {
           setAvailableModels((prev) => ({
             ...prev,
             [providerId]: models
@@ -363,6 +467,36 @@ function OptionsPage() {
     }
   }
 
+  // 切换服务商后，上一次的测试结果不再适用
+  useEffect(() => {
+    setConnectionTest(null)
+  }, [aiConfig.activeProvider])
+
+  // 使用表单中的配置测试连接，无需先保存
+  const handleTestConnection = async () => {
+    setTestingConnection(true)
+    setConnectionTest(null)
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: "testConnection",
+        provider: aiConfig.activeProvider,
+        config: aiConfig.providers[aiConfig.activeProvider] || {}
+      })
+      setConnectionTest(
+        response?.success
+          ? response.data
+          : { success: false, error: response?.error || t("connectionTestFailed") }
+      )
+    } catch (error) {
+      setConnectionTest({
+        success: false,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    } finally {
+      setTestingConnection(false)
+    }
+  }
+
   const handleApiKeyChange = (apiKey: string) => {
     const activeId = aiConfig.activeProvider
     const currentCfg = aiConfig.providers[activeId] || {}
@@ -400,10 +534,105 @@ function OptionsPage() {
     })
   }
 
+  const updateActiveProviderConfig = (patch: Partial<ProviderConfig>) => {
+    const activeId = aiConfig.activeProvider
+    const currentCfg = aiConfig.providers[activeId] || {}
+    setAiConfig({
+      ...aiConfig,
+      providers: {
+        ...aiConfig.providers,
+        [activeId]: { ...currentCfg, ...patch }
+      }
+    })
+  }
+
+  // 当前服务商保存的其他配置
+  const savedProfiles = aiConfig.savedProfiles?.[aiConfig.activeProvider] || []
+  const profileNames = [
+    aiConfig.providers[aiConfig.activeProvider]?.profileName,
+    ...savedProfiles.map((cfg) => cfg.profileName)
+  ]
+  const hasDuplicateProfileName =
+    new Set(profileNames).size !== profileNames.length
+
+  // 新建一套配置并切换过去，原配置保存在 savedProfiles 中
+  const handleAddProfile = () => {
+    let index = profileNames.length + 1
+    while (profileNames.includes(t("newProfileName", String(index)))) index++
+    const provider = AI_PROVIDERS.find((p) => p.id === aiConfig.activeProvider)
+    setAiConfig(
+      addProfile(aiConfig, aiConfig.activeProvider, {
+        profileName: t("newProfileName", String(index)),
+        baseUrl: provider?.baseUrl
+      })
+    )
+  }
+
+  // 备用服务商：只能选择已配置过的服务商
+  const fallbackProviders = (aiConfig.fallbackProviders || []).filter(
+    (id) => id !== aiConfig.activeProvider
+  )
+  const fallbackCandidates = AI_PROVIDERS.filter((provider) => {
+    if (provider.id === aiConfig.activeProvider) return false
+    if (fallbackProviders.includes(provider.id)) return false
+    if (provider.id === "mind-elixir") return true
+    const cfg = aiConfig.providers[provider.id]
+    return isLocalProvider(provider.id) ? !!cfg : hasApiKey(cfg)
+  })
+
+  const setFallbackProviders = (providers: string[]) => {
+    setAiConfig({ ...aiConfig, fallbackProviders: providers })
+  }
+
+  const moveFallbackProvider = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= fallbackProviders.length) return
+    const next = [...fallbackProviders]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    setFallbackProviders(next)
+  }
+
+  // 已配置、可用于任务级覆盖的服务商
+  const configuredProviders = AI_PROVIDERS.filter((provider) => {
+    if (provider.id === "mind-elixir") return true
+    const cfg = aiConfig.providers[provider.id]
+    return isLocalProvider(provider.id) ? !!cfg : hasApiKey(cfg)
+  })
+
+  const setTaskOverride = (task: AITask, override?: TaskModelOverride) => {
+    const taskOverrides = { ...aiConfig.taskOverrides }
+    if (override) {
+      taskOverrides[task] = override
+    } else {
+      delete taskOverrides[task]
+    }
+    setAiConfig({ ...aiConfig, taskOverrides })
+  }
+
+  const generationSettings =
+    aiConfig.generationSettings?.[generationTask] || {}
+
+  const updateGenerationSettings = (patch: GenerationSettings) => {
+    setAiConfig({
+      ...aiConfig,
+      generationSettings: {
+        ...aiConfig.generationSettings,
+        [generationTask]: { ...generationSettings, ...patch }
+      }
+    })
+  }
+
+  // 数字输入框为空时表示使用服务商默认值
+  const parseOptionalNumber = (value: string) =>
+    value === "" ? undefined : Number(value)
+
   const currentProvider = AI_PROVIDERS.find((p) => p.id === aiConfig.activeProvider)
   const currentProviderCfg = aiConfig.providers[aiConfig.activeProvider] || {}
 
   const isMindElixir = aiConfig.activeProvider === "mind-elixir"
+  const isLocal = isLocalProvider(aiConfig.activeProvider)
+  const isAzure = aiConfig.activeProvider === "azure-openai"
+  const isMock = aiConfig.activeProvider === "mock"
 
   return (
     <div className="min-h-screen bg-background">
@@ -440,6 +669,83 @@ function OptionsPage() {
           </Select>
         </div>
 
+        {!isMindElixir && (
+          <div className="space-y-1">
+            <Label htmlFor="profile-name" className="text-sm font-medium text-foreground">
+              {t("profile")}
+            </Label>
+            <div className="flex gap-2">
+              {savedProfiles.length > 0 && (
+                <Select
+                  value="current"
+                  onValueChange={(value) =>
+                    setAiConfig(
+                      applyProfile(
+                        aiConfig,
+                        aiConfig.activeProvider,
+                        Number(value)
+                      )
+                    )
+                  }>
+                  <SelectTrigger className="h-10 text-sm w-[180px] flex-shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="current">
+                      {currentProviderCfg.profileName || t("defaultProfile")}
+                    </SelectItem>
+                    {savedProfiles.map((cfg, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {cfg.profileName || t("defaultProfile")}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Input
+                id="profile-name"
+                type="text"
+                className="h-10 text-sm"
+                value={currentProviderCfg.profileName || ""}
+                onChange={(e) =>
+                  updateActiveProviderConfig({
+                    profileName: e.target.value || undefined
+                  })
+                }
+                placeholder={t("defaultProfile")}
+              />
+              <Button
+                variant="outline"
+                className="h-10 px-3 flex-shrink-0"
+                onClick={handleAddProfile}
+                title={t("addProfile")}>
+                <Plus className="h-4 w-4" />
+              </Button>
+              {savedProfiles.length > 0 && (
+                <Button
+                  variant="outline"
+                  className="h-10 px-3 flex-shrink-0"
+                  onClick={() =>
+                    setAiConfig(
+                      removeActiveProfile(aiConfig, aiConfig.activeProvider)
+                    )
+                  }
+                  title={t("deleteProfile")}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            {hasDuplicateProfileName && (
+              <p className="text-[10px] text-red-500">
+                {t("duplicateProfileName")}
+              </p>
+            )}
+            <p className="text-[10px] text-muted-foreground mt-0.5">
+              {t("profileTip")}
+            </p>
+          </div>
+        )}
+
         {/* Mind Elixir built-in provider panel */}
         {isMindElixir ? (
           <div className="rounded-lg border border-amber-300/60 dark:border-amber-700/50 bg-amber-50/50 dark:bg-amber-950/20 p-4 space-y-3">
@@ -556,7 +862,7 @@ function OptionsPage() {
                   id="api-address"
                   type="text"
                   className="h-10 text-sm"
-                  disabled={aiConfig.activeProvider !== "openai-compatible"}
+                  disabled={aiConfig.activeProvider !== "openai-compatible" && !isLocal}
                   value={currentProviderCfg.baseUrl || ""}
                   onChange={(e) => {
                     const activeId = aiConfig.activeProvider
@@ -572,34 +878,105 @@ function OptionsPage() {
                   placeholder={currentProvider.baseUrl}
                 />
                 <p className="text-[10px] text-muted-foreground mt-0.5">
-                  {t("customApiAddressTip")}
+                  {isLocal ? t("localProviderTip") : t("customApiAddressTip")}
                 </p>
               </div>
             )}
 
-            <div className="space-y-1">
-              <Label htmlFor="api-key" className="text-sm font-medium text-foreground">
-                {t("apiKey")}
-              </Label>
-              <Input
-                id="api-key"
-                type="password"
-                className="h-10 text-sm"
-                value={currentProviderCfg.apiKey || ""}
-                onChange={(e) => handleApiKeyChange(e.target.value)}
-                placeholder={t(
-                  "enterApiKeyPlaceholder",
-                  currentProvider?.name || ""
-                )}
-              />
-              <p className="text-[10px] text-muted-foreground mt-0.5">
-                {t("autoFetchModelsTip")}
+            {isAzure && (
+              <>
+                <div className="space-y-1">
+                  <Label htmlFor="azure-endpoint" className="text-sm font-medium text-foreground">
+                    {t("azureEndpoint")}
+                  </Label>
+                  <Input
+                    id="azure-endpoint"
+                    type="text"
+                    className="h-10 text-sm"
+                    value={currentProviderCfg.baseUrl || ""}
+                    onChange={(e) =>
+                      updateActiveProviderConfig({
+                        baseUrl: e.target.value || undefined
+                      })
+                    }
+                    placeholder="https://your-resource.openai.azure.com"
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <div className="space-y-1 flex-1">
+                    <Label htmlFor="azure-deployment" className="text-sm font-medium text-foreground">
+                      {t("azureDeployment")}
+                    </Label>
+                    <Input
+                      id="azure-deployment"
+                      type="text"
+                      className="h-10 text-sm"
+                      value={currentProviderCfg.deployment || ""}
+                      onChange={(e) =>
+                        updateActiveProviderConfig({
+                          deployment: e.target.value || undefined
+                        })
+                      }
+                      placeholder="gpt-4o"
+                    />
+                  </div>
+                  <div className="space-y-1 w-[180px]">
+                    <Label htmlFor="azure-api-version" className="text-sm font-medium text-foreground">
+                      {t("azureApiVersion")}
+                    </Label>
+                    <Input
+                      id="azure-api-version"
+                      type="text"
+                      className="h-10 text-sm"
+                      value={currentProviderCfg.apiVersion || ""}
+                      onChange={(e) =>
+                        updateActiveProviderConfig({
+                          apiVersion: e.target.value || undefined
+                        })
+                      }
+                      placeholder={AZURE_DEFAULT_API_VERSION}
+                    />
+                  </div>
+                </div>
+                <p className="text-[10px] text-muted-foreground mt-0.5">
+                  {t("azureConfigTip")}
+                </p>
+              </>
+            )}
+
+            {isMock ? (
+              <p className="text-[10px] text-muted-foreground">
+                {t("mockProviderTip")}
               </p>
-            </div>
+            ) : (
+              <div className="space-y-1">
+                <Label htmlFor="api-key" className="text-sm font-medium text-foreground">
+                  {t("apiKey")}
+                </Label>
+                <Input
+                  id="api-key"
+                  type="password"
+                  className="h-10 text-sm"
+                  value={currentProviderCfg.apiKey || ""}
+                  onChange={(e) => handleApiKeyChange(e.target.value)}
+                  disabled={vaultState.locked}
+                  placeholder={
+                    vaultState.locked
+                      ? t("apiKeyLockedPlaceholder")
+                      : isLocal
+                        ? t("optionalApiKeyPlaceholder")
+                        : t("enterApiKeyPlaceholder", currentProvider?.name || "")
+                  }
+                />
+                <p className="text-[10px] text-muted-foreground mt-0.5">
+                  {vaultState.locked ? t("apiKeysLocked") : t("autoFetchModelsTip")}
+                </p>
+              </div>
+            )}
           </div>
         )}
 
-        {!isMindElixir && (
+        {!isMindElixir && !isAzure && (
           <div className="space-y-2 border-t border-border pt-4 mt-2">
             <Label className="text-sm font-semibold text-foreground">
               {t("modelSelection")}
@@ -663,7 +1040,7 @@ function OptionsPage() {
                 )}
               </div>
 
-              {currentProviderCfg.apiKey && (
+              {(currentProviderCfg.apiKey || isLocal) && (
                 <Button
                   variant="outline"
                   size="sm"
@@ -672,8 +1049,8 @@ function OptionsPage() {
                     const provider = AI_PROVIDERS.find(
                       (p) => p.id === aiConfig.activeProvider
                     )
-                    if (provider && currentProviderCfg.apiKey) {
-                      fetchModels(provider, currentProviderCfg.apiKey).then((models) => {
+                    if (provider && (currentProviderCfg.apiKey || isLocal)) {
+                      fetchModels(provider, currentProviderCfg.apiKey || "").then((models) => {
                         setAvailableModels((prev) => ({
                           ...prev,
                           [provider.id]: models
@@ -699,6 +1076,343 @@ function OptionsPage() {
           </div>
         )}
 
+        {THINKING_PROVIDERS.includes(aiConfig.activeProvider) && (
+          <div className="space-y-2 border-t border-border pt-4 mt-2">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="enable-thinking"
+                checked={!!currentProviderCfg.thinking}
+                onCheckedChange={(checked) =>
+                  updateActiveProviderConfig({ thinking: checked === true })
+                }
+              />
+              <Label htmlFor="enable-thinking" className="text-sm font-medium text-foreground">
+                {t("enableThinking")}
+              </Label>
+            </div>
+            {currentProviderCfg.thinking && (
+              <div className="space-y-1">
+                <Label htmlFor="thinking-budget" className="text-xs text-foreground">
+                  {t("thinkingBudget")}
+                </Label>
+                <Input
+                  id="thinking-budget"
+                  type="number"
+                  min={1024}
+                  step={1024}
+                  className="h-9 text-xs"
+                  value={currentProviderCfg.thinkingBudget ?? ""}
+                  onChange={(e) =>
+                    updateActiveProviderConfig({
+                      thinkingBudget: e.target.value
+                        ? Number(e.target.value)
+                        : undefined
+                    })
+                  }
+                  placeholder={String(DEFAULT_THINKING_BUDGET)}
+                />
+              </div>
+            )}
+            <p className="text-[10px] text-muted-foreground">
+              {t("enableThinkingTip")}
+            </p>
+          </div>
+        )}
+
+        {!isMindElixir && (
+          <div className="space-y-2 border-t border-border pt-4 mt-2">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-[10px] text-muted-foreground">
+                {t("testConnectionTip")}
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 text-xs gap-1.5 flex-shrink-0"
+                onClick={handleTestConnection}
+                disabled={testingConnection}>
+                <RefreshCw
+                  className={cn("h-3.5 w-3.5", testingConnection && "animate-spin")}
+                />
+                {testingConnection ? t("testingConnection") : t("testConnection")}
+              </Button>
+            </div>
+            {connectionTest &&
+              (connectionTest.success ? (
+                <div className="rounded-md border border-green-300 bg-green-50 dark:border-green-800 dark:bg-green-950/30 p-3 text-xs text-green-900 dark:text-green-200 space-y-0.5">
+                  <p className="font-medium flex items-center gap-1">
+                    <Check className="h-3.5 w-3.5" />
+                    {t("connectionTestSuccess")}
+                  </p>
+                  <p>
+                    {connectionTest.latency !== undefined
+                      ? t("connectionTestLatency", [
+                          String(connectionTest.latency),
+                          String(connectionTest.totalTime)
+                        ])
+                      : t("connectionTestTotalTime", String(connectionTest.totalTime))}
+                  </p>
+                  <p>
+                    {t(
+                      "connectionTestModel",
+                      connectionTest.model || t("connectionTestModelUnknown")
+                    )}
+                  </p>
+                  <p>
+                    {connectionTest.streaming
+                      ? t("connectionTestStreaming")
+                      : t("connectionTestNoStreaming")}
+                  </p>
+                  <p>
+                    {connectionTest.reasoning
+                      ? t("connectionTestReasoning")
+                      : t("connectionTestNoReasoning")}
+                  </p>
+                </div>
+              ) : (
+                <div className="rounded-md border border-red-300 bg-red-50 dark:border-red-800 dark:bg-red-950/30 p-3 text-xs text-red-900 dark:text-red-200 flex items-start gap-1">
+                  <X className="h-3.5 w-3.5 mt-[1px] flex-shrink-0" />
+                  <span className="break-all">{connectionTest.error}</span>
+                </div>
+              ))}
+          </div>
+        )}
+
+        <div className="space-y-2 border-t border-border pt-4 mt-2">
+          <Label className="text-sm font-semibold text-foreground">
+            {t("fallbackProviders")}
+          </Label>
+          {fallbackProviders.length > 0 && (
+            <div className="space-y-1">
+              {fallbackProviders.map((id, index) => (
+                <div
+                  key={id}
+                  className="flex items-center gap-2 rounded-md border border-border px-2 py-1 text-xs">
+                  <span className="text-muted-foreground w-4">{index + 1}.</span>
+                  <span className="flex-1 truncate">
+                    {AI_PROVIDERS.find((p) => p.id === id)?.name || id}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    disabled={index === 0}
+                    onClick={() => moveFallbackProvider(index, -1)}>
+                    <ArrowUp className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    disabled={index === fallbackProviders.length - 1}
+                    onClick={() => moveFallbackProvider(index, 1)}>
+                    <ArrowDown className="h-3.5 w-3.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() =>
+                      setFallbackProviders(
+                        fallbackProviders.filter((p) => p !== id)
+                      )
+                    }>
+                    <X className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+          {fallbackCandidates.length > 0 && (
+            <Select
+              value=""
+              onValueChange={(id) =>
+                setFallbackProviders([...fallbackProviders, id])
+              }>
+              <SelectTrigger className="h-9 text-xs">
+                <SelectValue placeholder={t("addFallbackProvider")} />
+              </SelectTrigger>
+              <SelectContent>
+                {fallbackCandidates.map((provider) => (
+                  <SelectItem key={provider.id} value={provider.id}>
+                    {provider.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <p className="text-[10px] text-muted-foreground">
+            {t("fallbackProvidersTip")}
+          </p>
+        </div>
+
+        <div className="space-y-2 border-t border-border pt-4 mt-2">
+          <Label className="text-sm font-semibold text-foreground">
+            {t("taskModels")}
+          </Label>
+          {TASK_OPTIONS.map((task) => {
+            const override = aiConfig.taskOverrides?.[task.id]
+            const providerCfg = override
+              ? aiConfig.providers[override.provider]
+              : undefined
+            const canSetModel =
+              !!override &&
+              override.provider !== "mind-elixir" &&
+              override.provider !== "azure-openai"
+            return (
+              <div key={task.id} className="flex items-center gap-2">
+                <span className="w-24 shrink-0 text-xs text-foreground">
+                  {t(task.label)}
+                </span>
+                <Select
+                  value={override?.provider || DEFAULT_TASK_PROVIDER}
+                  onValueChange={(provider) =>
+                    setTaskOverride(
+                      task.id,
+                      provider === DEFAULT_TASK_PROVIDER
+                        ? undefined
+                        : { provider }
+                    )
+                  }>
+                  <SelectTrigger className="h-8 text-xs flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_TASK_PROVIDER}>
+                      {t("useDefaultProvider")}
+                    </SelectItem>
+                    {configuredProviders.map((provider) => (
+                      <SelectItem key={provider.id} value={provider.id}>
+                        {provider.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {canSetModel && (
+                  <Input
+                    className="h-8 text-xs flex-1"
+                    value={override.model || ""}
+                    placeholder={providerCfg?.model || t("taskModelPlaceholder")}
+                    onChange={(e) =>
+                      setTaskOverride(task.id, {
+                        ...override,
+                        model: e.target.value
+                      })
+                    }
+                  />
+                )}
+              </div>
+            )
+          })}
+          <p className="text-[10px] text-muted-foreground">
+            {t("taskModelsTip")}
+          </p>
+        </div>
+
+        <div className="space-y-2 border-t border-border pt-4 mt-2">
+          <Label className="text-sm font-semibold text-foreground">
+            {t("generationSettings")}
+          </Label>
+          <Select
+            value={generationTask}
+            onValueChange={(value) => setGenerationTask(value as AITask)}>
+            <SelectTrigger className="h-9 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TASK_OPTIONS.map((task) => (
+                <SelectItem key={task.id} value={task.id}>
+                  {t(task.label)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="temperature" className="text-xs text-foreground">
+                {t("temperature")}
+              </Label>
+              <Input
+                id="temperature"
+                type="number"
+                min={0}
+                max={2}
+                step={0.1}
+                className="h-9 text-xs"
+                value={generationSettings.temperature ?? ""}
+                placeholder={t("providerDefault")}
+                onChange={(e) =>
+                  updateGenerationSettings({
+                    temperature: parseOptionalNumber(e.target.value)
+                  })
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="top-p" className="text-xs text-foreground">
+                Top P
+              </Label>
+              <Input
+                id="top-p"
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                className="h-9 text-xs"
+                value={generationSettings.topP ?? ""}
+                placeholder={t("providerDefault")}
+                onChange={(e) =>
+                  updateGenerationSettings({
+                    topP: parseOptionalNumber(e.target.value)
+                  })
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="max-tokens" className="text-xs text-foreground">
+                {t("maxOutputTokens")}
+              </Label>
+              <Input
+                id="max-tokens"
+                type="number"
+                min={1}
+                step={256}
+                className="h-9 text-xs"
+                value={generationSettings.maxTokens ?? ""}
+                placeholder={t("providerDefault")}
+                onChange={(e) =>
+                  updateGenerationSettings({
+                    maxTokens: parseOptionalNumber(e.target.value)
+                  })
+                }
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-foreground">
+                {t("responseFormat")}
+              </Label>
+              <Select
+                value={generationSettings.responseFormat || "text"}
+                onValueChange={(value) =>
+                  updateGenerationSettings({
+                    responseFormat: value as GenerationSettings["responseFormat"]
+                  })
+                }>
+                <SelectTrigger className="h-9 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="text">{t("responseFormatText")}</SelectItem>
+                  <SelectItem value="json">JSON</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-[10px] text-muted-foreground">
+            {t("generationSettingsTip")}
+          </p>
+        </div>
+
         <div className="space-y-1 border-t border-border pt-4 mt-2">
           <Label htmlFor="reply-language" className="text-sm font-medium text-foreground">{t("aiReplyLanguage")}</Label>
           <Select
@@ -722,13 +1436,36 @@ function OptionsPage() {
           </p>
         </div>
 
+        <div className="space-y-2 border-t border-border pt-4 mt-2">
+          <Label className="text-sm font-semibold text-foreground">
+            {t("apiKeyEncryption")}
+          </Label>
+          <p className="text-[10px] text-muted-foreground">
+            {t("apiKeyEncryptionTip")}
+          </p>
+          <ApiKeyEncryption state={vaultState} onChange={loadConfig} />
+        </div>
+
+        <div className="space-y-2 border-t border-border pt-4 mt-2">
+          <Label className="text-sm font-semibold text-foreground">
+            {t("promptTemplates")}
+          </Label>
+          <p className="text-[10px] text-muted-foreground">
+            {t("promptTemplatesTip")}
+          </p>
+          <PromptTemplateEditor />
+        </div>
+
         <div className="pt-2">
           <Button
             onClick={saveConfig}
-            disabled={saving}
+            disabled={saving || hasDuplicateProfileName}
             className={cn("w-full h-10 text-sm font-semibold", saved ? "bg-green-600 hover:bg-green-700" : "")}>
             {saving ? t("saving") : saved ? t("saved") : t("saveConfig")}
           </Button>
+          {saveError && (
+            <p className="text-xs text-red-500 mt-2">{saveError}</p>
+          )}
         </div>
       </div>
 
@@ -2,13 +2,18 @@ import iconBase64 from "~/assets/icon.png"
 import { useEffect, useState } from "react"
 import { storage } from "@wxt-dev/storage"
 
+import { ProfileSwitcher } from "~/components/ProfileSwitcher"
 import { Button } from "~/components/ui/button"
+import { extractVideoId } from "~/config/platforms"
 import type { AIConfig } from "~/utils/ai-service"
 import { isAIConfigured } from "~/utils/ai-service"
 import { t } from "~/utils/i18n"
+import { listProfiles } from "~/utils/provider-profiles"
 
 function IndexPopup() {
   const [aiEnabled, setAiEnabled] = useState(false)
+  // 有多套服务商配置时显示快速切换
+  const [hasProfiles, setHasProfiles] = useState(false)
   const [loading, setLoading] = useState(true)
 
   const [isVideoPage, setIsVideoPage] = useState(false)
@@ -25,6 +30,7 @@ function IndexPopup() {
     try {
       const config = await storage.getItem<AIConfig>("local:aiConfigV2")
       setAiEnabled(isAIConfigured(config))
+      setHasProfiles(listProfiles(config).length > 1)
     } catch (error) {
       console.error("加载AI配置失败:", error)
     } finally {
@@ -45,15 +51,18 @@ function IndexPopup() {
 
           // 检测是否为视频页面
           const isVideo =
-            url.includes("youtube.com/watch") ||
+            !!extractVideoId(url, "youtube") ||
             url.includes("bilibili.com/video") ||
-            url.includes("bilibili.com/list/watchlater")
+            url.includes("bilibili.com/list/watchlater") ||
+            url.includes("bilibili.com/bangumi/play/") ||
+            url.includes("bilibili.com/festival/")
           setIsVideoPage(isVideo)
 
           // 检测是否为文章页面（排除视频网站）
           const isArticle =
             !isVideo &&
             !url.includes("youtube.com") &&
+            !url.includes("youtube-nocookie.com") &&
             !url.includes("bilibili.com") &&
             !url.startsWith("chrome://") &&
             !url.startsWith("chrome-extension://")
@@ -197,6 +206,13 @@ function IndexPopup() {
             )}
           </div>
 
+          {aiEnabled && hasProfiles && (
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-500">{t("profile")}</span>
+              <ProfileSwitcher className="text-gray-700" />
+            </div>
+          )}
+
           {!aiEnabled && (
             <div className="bg-orange-50 border border-orange-200 rounded-lg p-2">
               <div className="text-xs text-orange-700">
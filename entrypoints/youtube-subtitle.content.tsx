@@ -1,8 +1,24 @@
 import ReactDOM from "react-dom/client"
 import { useEffect, useState } from "react"
 import { SubtitlePanel } from "~/components/SubtitlePanel"
+import {
+  PLATFORMS,
+  extractVideoId as extractPlatformVideoId
+} from "~/config/platforms"
 import { t } from "~/utils/i18n"
-import { waitForElement } from "~/utils/subtitle-utils"
+import { fetchWithRetry } from "~/utils/retry"
+import {
+  getPreferredSubtitleLanguage,
+  selectDefaultTrack,
+  waitForElement
+} from "~/utils/subtitle-utils"
+import {
+  buildCaptionUrl,
+  fetchTranscript,
+  fetchWatchPage,
+  getCaptionTracks,
+  type YouTubeCaptionTrack
+} from "~/utils/youtube-captions"
 import mainStyles from "@/assets/style.css?inline"
 import elixirStyles from "mind-elixir/style.css?inline"
 import overrideStyles from "@/assets/mind-elixir-override.css?inline"
@@ -26,26 +42,31 @@ function YouTubeSubtitlePanel() {
   const [videoInfo, setVideoInfo] = useState<VideoInfo | null>(null)
   const [isVisible, setIsVisible] = useState(false)
   const [currentVideoId, setCurrentVideoId] = useState<string | null>(null)
+  const [tracks, setTracks] = useState<YouTubeCaptionTrack[]>([])
+  const [selectedTrackId, setSelectedTrackId] = useState<string | null>(null)
+  const [defaultTrackId, setDefaultTrackId] = useState<string | null>(null)
+  // 播放器发出的字幕请求，切换轨道时从中复制 pot 等参数
+  const [capturedUrl, setCapturedUrl] = useState<string | null>(null)
 
-  // 从URL中提取视频ID
+  // 从URL中提取视频ID，支持普通视频、Shorts、直播、嵌入播放器和 YouTube Music
   const extractVideoId = (): string | null => {
-    const url = window.location.href
-    const match = url.match(/[?&]v=([^&]+)/)
-    return match ? match[1] : null
+    return extractPlatformVideoId(window.location.href, "youtube")
   }
 
   // 获取视频标题
   const getVideoTitle = async (): Promise<string> => {
     const titleElement = await waitForElement(
-      "h1.ytd-watch-metadata yt-formatted-string, h1.title",
+      PLATFORMS.youtube.selectors.titleElement.join(", "),
       5000
     )
-    return titleElement?.textContent || t("unknownTitle")
+    // Shorts 等页面没有固定的标题元素，使用页面标题
+    const pageTitle = document.title.replace(/ - YouTube( Music)?$/, "")
+    return titleElement?.textContent || pageTitle || t("unknownTitle")
   }
 
-  // 等待CC按钮加载并启动字幕
-  const waitForCCButtonAndEnable = async (): Promise<boolean> => {
-    return new Promise((resolve) => {
+  // 等待CC按钮加载并启动字幕，返回被本次开启的按钮，便于之后恢复
+  const waitForCCButtonAndEnable = async () => {
+    return new Promise<HTMLButtonElement | null>((resolve) => {
       const checkCCButton = () => {
         const ccButton = document.querySelector(
           '.ytp-subtitles-button, .ytp-caption-button, button[aria-label*="字幕"], button[aria-label*="Subtitles"], button[aria-label*="Captions"]'
@@ -61,10 +82,11 @@ function YouTubeSubtitlePanel() {
           if (!isSubtitleEnabled) {
             console.log("启动YouTube CC字幕")
             ccButton.click()
+            resolve(ccButton)
           } else {
             console.log("YouTube CC字幕已经开启")
+            resolve(null)
           }
-          resolve(true)
         } else {
           // 继续等待CC按钮加载
           setTimeout(checkCCButton, 500)
@@ -125,44 +147,115 @@ function YouTubeSubtitlePanel() {
     return merged
   }
 
-  // 开始字幕逻辑：等待字幕URL并处理
+  // 点击CC按钮，等待播放器发出带 pot 参数的字幕请求，作为最后的获取方式
+  const captureSubtitleUrl = async (
+    videoId: string,
+    track: YouTubeCaptionTrack | null
+  ) => {
+    // 播放器已经在本标签页请求过当前视频的字幕时直接使用，无需点击CC按钮
+    const response = await chrome.runtime
+      .sendMessage({ action: "getCapturedSubtitleUrl", videoId })
+      .catch(() => null)
+    if (response?.data) {
+      console.log("使用已捕获的字幕URL:", response.data)
+      setCapturedUrl(response.data)
+      loadSubtitleContent(
+        track ? buildCaptionUrl(track, response.data) : response.data
+      )
+      return
+    }
+
+    // 被本次开启的CC按钮，捕获后关闭以恢复用户原来的设置
+    let enabledButton: HTMLButtonElement | null = null
+
+    // 开始监听字幕URL
+    let isListening = true
+    const urlListener = (message: any) => {
+      if (message.type === "SUBTITLE_URL_CAPTURED" && isListening) {
+        // 忽略其他视频的字幕请求
+        if (message.videoId !== videoId) return
+        console.log("收到字幕URL:", message.url)
+        isListening = false // 停止监听
+        chrome.runtime.onMessage.removeListener(urlListener)
+        enabledButton?.click()
+        setCapturedUrl(message.url)
+        // 没有读到轨道列表时使用播放器选择的字幕
+        loadSubtitleContent(
+          track ? buildCaptionUrl(track, message.url) : message.url
+        )
+      }
+    }
+    chrome.runtime.onMessage.addListener(urlListener)
+
+    await new Promise((resolve) => {
+      setTimeout(resolve, 3000)
+    })
+
+    // 等待CC按钮加载并启动字幕
+    enabledButton = await waitForCCButtonAndEnable()
+
+    // 设置超时，如果15秒内没有收到URL则停止
+    setTimeout(async () => {
+      if (isListening) {
+        isListening = false
+        chrome.runtime.onMessage.removeListener(urlListener)
+        enabledButton?.click()
+        setError(t("subtitleTimeout"))
+        setLoading(false)
+        // 超时时也更新一次标题（此时页面标题应已加载完毕）
+        const latestTitle = await getVideoTitle()
+        setVideoInfo((prev) => prev ? { ...prev, title: latestTitle } : prev)
+      }
+    }, 15000)
+  }
+
+  // 开始字幕逻辑：依次尝试直接请求字幕轨道、转写文稿面板、点击CC按钮捕获字幕URL
   const startSubtitleLogic = async (videoId: string) => {
     try {
       setLoading(true)
       setError(null)
       console.log("开始字幕逻辑，视频ID:", videoId)
 
-      // 开始监听字幕URL
-      let isListening = true
-      const urlListener = (message: any) => {
-        if (message.type === "SUBTITLE_URL_CAPTURED" && isListening) {
-          console.log("收到字幕URL:", message.url)
-          isListening = false // 停止监听
-          chrome.runtime.onMessage.removeListener(urlListener)
-          loadSubtitleContent(message.url)
+      const page = await fetchWatchPage(videoId).catch((error) => {
+        console.error("读取观看页失败:", error)
+        return null
+      })
+      // 没有读到轨道时仍继续尝试转写文稿面板和点击CC按钮
+      const trackList = getCaptionTracks(page?.playerResponse)
+
+      const track = selectDefaultTrack(
+        trackList.filter((item) => !item.translated),
+        await getPreferredSubtitleLanguage()
+      )
+      if (track) {
+        console.log("默认字幕轨道:", track)
+        setTracks(trackList)
+        setSelectedTrackId(track.id)
+        setDefaultTrackId(track.id)
+        // 不要求 pot 参数的视频可以直接请求
+        if (
+          await tryLoadSubtitles(
+            () => fetchSubtitleItems(buildCaptionUrl(track)),
+            "字幕轨道"
+          )
+        ) {
+          return
         }
       }
-      chrome.runtime.onMessage.addListener(urlListener)
 
-      await new Promise((resolve) => {
-        setTimeout(resolve, 3000)
-      })
+      // 转写文稿面板只提供默认语言，与选择器中的轨道不一定对应
+      if (
+        page &&
+        (await tryLoadSubtitles(
+          async () => mergeSubtitleSegments(await fetchTranscript(page)),
+          "转写文稿"
+        ))
+      ) {
+        setSelectedTrackId(null)
+        return
+      }
 
-      // 等待CC按钮加载并启动字幕
-      await waitForCCButtonAndEnable()
-
-      // 设置超时，如果15秒内没有收到URL则停止
-      setTimeout(async () => {
-        if (isListening) {
-          isListening = false
-          chrome.runtime.onMessage.removeListener(urlListener)
-          setError(t("subtitleTimeout"))
-          setLoading(false)
-          // 超时时也更新一次标题（此时页面标题应已加载完毕）
-          const latestTitle = await getVideoTitle()
-          setVideoInfo((prev) => prev ? { ...prev, title: latestTitle } : prev)
-        }
-      }, 15000)
+      await captureSubtitleUrl(videoId, track)
     } catch (error) {
       console.error(t("subtitleLogicFailed"), error)
       setError(t("fetchSubtitlesFailed") + " " + (error as Error).message)
@@ -170,61 +263,94 @@ function YouTubeSubtitlePanel() {
     }
   }
 
-  // 加载字幕内容
-  const loadSubtitleContent = async (subtitleUrl: string) => {
-    try {
-      console.log("加载字幕内容:", subtitleUrl)
+  // 请求字幕文件并转换为合并后的字幕；缺少 pot 参数时接口返回空内容，此时返回空数组
+  const fetchSubtitleItems = async (
+    subtitleUrl: string
+  ): Promise<SubtitleItem[]> => {
+    console.log("加载字幕内容:", subtitleUrl)
 
-      // 确保URL包含JSON格式参数
-      const url = new URL(subtitleUrl)
-      if (!url.searchParams.has("fmt")) {
-        url.searchParams.set("fmt", "json3")
-      }
+    // 确保URL包含JSON格式参数
+    const url = new URL(subtitleUrl)
+    if (!url.searchParams.has("fmt")) {
+      url.searchParams.set("fmt", "json3")
+    }
 
-      const response = await fetch(url.toString())
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-      }
+    const response = await fetchWithRetry(url.toString())
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+    }
+
+    const text = await response.text()
+    if (!text) {
+      return []
+    }
+    const data = JSON.parse(text)
+    console.log("字幕数据:", data)
 
-      const data = await response.json()
-      console.log("字幕数据:", data)
-
-      if (data.events && Array.isArray(data.events)) {
-        // 处理YouTube的字幕格式
-        const rawSubtitles: SubtitleItem[] = []
-
-        // 首先提取所有原始字幕片段
-        for (const event of data.events) {
-          if (event.segs && Array.isArray(event.segs)) {
-            for (const seg of event.segs) {
-              if (seg.utf8) {
-                rawSubtitles.push({
-                  start: event.tStartMs / 1000,
-                  dur: event.dDurationMs / 1000,
-                  text: seg.utf8.replace(/\n/g, " ").trim()
-                })
-              }
-            }
+    if (!data.events || !Array.isArray(data.events)) {
+      console.error(t("youtubeSubtitleFormatError"), data)
+      throw new Error(t("expectedEventsArray"))
+    }
+
+    // 处理YouTube的字幕格式，首先提取所有原始字幕片段
+    const rawSubtitles: SubtitleItem[] = []
+    for (const event of data.events) {
+      if (event.segs && Array.isArray(event.segs)) {
+        for (const seg of event.segs) {
+          if (seg.utf8) {
+            rawSubtitles.push({
+              start: event.tStartMs / 1000,
+              dur: event.dDurationMs / 1000,
+              text: seg.utf8.replace(/\n/g, " ").trim()
+            })
           }
         }
+      }
+    }
 
-        // 合并短片段字幕
-        const mergedSubtitles = mergeSubtitleSegments(rawSubtitles)
+    // 合并短片段字幕
+    const mergedSubtitles = mergeSubtitleSegments(rawSubtitles)
+    console.log(`字幕加载成功，原始片段: ${rawSubtitles.length} 条，合并后: ${mergedSubtitles.length} 条`)
+    return mergedSubtitles
+  }
 
-        setSubtitles(mergedSubtitles)
-        setLoading(false)
-        // 字幕加载成功时更新标题（确保标题与当前视频同步）
-        const latestTitle = await getVideoTitle()
-        setVideoInfo((prev) => prev ? { ...prev, title: latestTitle } : prev)
-        console.log(`字幕加载成功，原始片段: ${rawSubtitles.length} 条，合并后: ${mergedSubtitles.length} 条`)
-      } else {
-        console.error(t("youtubeSubtitleFormatError"), data)
-        setError(t("expectedEventsArray"))
-        setLoading(false)
-        // 格式错误时也更新标题
-        const latestTitle = await getVideoTitle()
-        setVideoInfo((prev) => prev ? { ...prev, title: latestTitle } : prev)
+  // 显示字幕并结束加载
+  const showSubtitles = async (items: SubtitleItem[]) => {
+    setSubtitles(items)
+    setLoading(false)
+    // 字幕加载成功时更新标题（确保标题与当前视频同步）
+    const latestTitle = await getVideoTitle()
+    setVideoInfo((prev) => prev ? { ...prev, title: latestTitle } : prev)
+  }
+
+  // 尝试一种获取方式，拿到字幕时显示并返回 true，失败时交给下一种方式
+  const tryLoadSubtitles = async (
+    fetchItems: () => Promise<SubtitleItem[]>,
+    source: string
+  ): Promise<boolean> => {
+    try {
+      const items = await fetchItems()
+      if (items.length === 0) {
+        console.log(`${source}没有返回字幕`)
+        return false
+      }
+      console.log(`通过${source}获取字幕成功`)
+      await showSubtitles(items)
+      return true
+    } catch (error) {
+      console.warn(`通过${source}获取字幕失败:`, error)
+      return false
+    }
+  }
+
+  // 加载字幕内容
+  const loadSubtitleContent = async (subtitleUrl: string) => {
+    try {
+      const items = await fetchSubtitleItems(subtitleUrl)
+      if (items.length === 0) {
+        throw new Error(t("noSubtitles"))
       }
+      await showSubtitles(items)
     } catch (error) {
       console.error(t("loadSubtitleContentFailed"), error)
       setError(t("loadSubtitleContentFailed") + " " + (error as Error).message)
@@ -235,6 +361,30 @@ function YouTubeSubtitlePanel() {
     }
   }
 
+  // 切换字幕轨道，只请求字幕数据，不改变播放器显示的字幕
+  const handleSelectTrack = async (trackId: string) => {
+    const track = tracks.find((item) => item.id === trackId)
+    if (!track || trackId === selectedTrackId || !currentVideoId) return
+
+    setSelectedTrackId(trackId)
+    setSubtitles([])
+    setError(null)
+    setLoading(true)
+    if (capturedUrl) {
+      loadSubtitleContent(buildCaptionUrl(track, capturedUrl))
+      return
+    }
+    // 还没有捕获到 pot 参数时先直接请求，拿不到再点击CC按钮捕获
+    if (
+      !(await tryLoadSubtitles(
+        () => fetchSubtitleItems(buildCaptionUrl(track)),
+        "字幕轨道"
+      ))
+    ) {
+      captureSubtitleUrl(currentVideoId, track)
+    }
+  }
+
   // 跳转到指定时间
   const jumpToTime = (time: number) => {
     const video = document.querySelector("video") as HTMLVideoElement
@@ -257,6 +407,10 @@ function YouTubeSubtitlePanel() {
     console.log("检测到新视频，Video ID:", videoId)
     setCurrentVideoId(videoId)
     setSubtitles([]) // 清空旧字幕
+    setTracks([])
+    setSelectedTrackId(null)
+    setDefaultTrackId(null)
+    setCapturedUrl(null)
     setError(null)
 
     const title = await getVideoTitle()
@@ -323,13 +477,39 @@ function YouTubeSubtitlePanel() {
       onJumpToTime={jumpToTime}
       platform="youtube"
       onClose={handleClose}
+      tracks={tracks}
+      selectedTrackId={selectedTrackId}
+      defaultTrackId={defaultTrackId}
+      onSelectTrack={handleSelectTrack}
     />
   )
 }
 
+// 面板宽 350px、高 600px，距框架顶部 80px、右侧 20px
+const PANEL_MIN_FRAME_WIDTH = 370
+const PANEL_MIN_FRAME_HEIGHT = 680
+
+// 嵌入播放器运行在第三方页面的 iframe 中；子框架只在是嵌入播放器且足以容纳面板时显示
+const shouldMountPanel = () => {
+  if (window === window.top) return true
+  return (
+    location.pathname.startsWith("/embed/") &&
+    window.innerWidth >= PANEL_MIN_FRAME_WIDTH &&
+    window.innerHeight >= PANEL_MIN_FRAME_HEIGHT
+  )
+}
+
 export default defineContentScript({
-  matches: ["https://www.youtube.com/*"],
+  matches: [
+    "https://www.youtube.com/*",
+    "https://m.youtube.com/*",
+    "https://music.youtube.com/*",
+    "https://www.youtube-nocookie.com/embed/*"
+  ],
+  allFrames: true,
   async main(ctx) {
+    if (!shouldMountPanel()) return
+
     const ui = await createShadowRootUi(ctx, {
       name: "youtube-subtitle-panel",
       position: "overlay",
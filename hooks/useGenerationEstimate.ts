@@ -0,0 +1,56 @@
+import { useEffect, useState } from "react";
+
+export interface GenerationEstimate {
+  inputTokens: number;
+  outputTokens: number;
+  provider: string;
+  cost: number | null;
+}
+
+/**
+ * 生成前向后台请求 Token 与费用估算（使用与实际生成相同的提示词和模型）
+ */
+export function useGenerationEstimate(
+  action: string | undefined,
+  getContent: (() => string | null) | undefined,
+  getTitle: (() => string) | undefined,
+  enabled: boolean
+) {
+  const [estimate, setEstimate] = useState<GenerationEstimate | null>(null);
+  // 字幕加载完成、切换字幕轨道或分P后内容会变化，需要重新估算
+  const content = enabled && getContent ? getContent() : null;
+  const title = enabled ? getTitle?.() : undefined;
+
+  useEffect(() => {
+    if (!enabled || !action) return;
+
+    if (!content) {
+      setEstimate(null);
+      return;
+    }
+
+    let cancelled = false;
+    chrome.runtime.sendMessage(
+      {
+        action: "estimateGeneration",
+        generationAction: action,
+        content,
+        title,
+      },
+      (response) => {
+        if (cancelled) return;
+        if (chrome.runtime.lastError) {
+          console.warn("[useGenerationEstimate] estimate failed:", chrome.runtime.lastError);
+          return;
+        }
+        setEstimate(response?.success ? response.data : null);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, action, content, title]);
+
+  return estimate;
+}
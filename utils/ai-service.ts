@@ -1,15 +1,76 @@
 import { storage } from "@wxt-dev/storage"
 
 export interface ProviderConfig {
+  // Name of this configuration when the provider has several (see provider-profiles)
+  profileName?: string
   apiKey?: string
+  // Replaces apiKey in storage when API key encryption is on (see api-key-vault)
+  encryptedApiKey?: string
   baseUrl?: string
   model?: string
+  // Extended thinking (Claude / Gemini)
+  thinking?: boolean
+  thinkingBudget?: number
+  // Azure OpenAI deployment settings; baseUrl holds the resource endpoint
+  deployment?: string
+  apiVersion?: string
+}
+
+export interface ChatMessage {
+  role: "user" | "assistant"
+  content: string
+}
+
+// Generation tasks that can use their own provider, model and prompt template
+export type AITask = "summary" | "videoMindmap" | "articleMindmap" | "chat"
+
+// Maps AI_STREAM port actions to tasks
+export const ACTION_TASKS: Record<string, AITask> = {
+  summarizeSubtitlesStream: "summary",
+  generateMindmapStream: "videoMindmap",
+  generateArticleMindmapStream: "articleMindmap",
+  chatStream: "chat"
+}
+
+export interface TaskModelOverride {
+  provider: string
+  // Empty means the provider's own configured model
+  model?: string
+}
+
+// Sampling and output settings; unset fields use the provider's defaults
+export interface GenerationSettings {
+  temperature?: number
+  maxTokens?: number
+  topP?: number
+  // "json" asks the provider for a JSON response where supported
+  responseFormat?: "text" | "json"
 }
 
 export interface AIConfig {
   activeProvider: string
   replyLanguage?: string
   providers: Record<string, ProviderConfig>
+  // Other named configurations of each provider, not currently in use
+  savedProfiles?: Record<string, ProviderConfig[]>
+  // Providers tried in order when the active one fails before streaming starts
+  fallbackProviders?: string[]
+  // Per-task provider/model, used instead of activeProvider for that task
+  taskOverrides?: Partial<Record<AITask, TaskModelOverride>>
+  generationSettings?: Partial<Record<AITask, GenerationSettings>>
+}
+
+// Result of the "Test connection" check on the options page
+export interface ConnectionTestResult {
+  success: boolean
+  // Milliseconds until the first streamed chunk and until the stream ended
+  latency?: number
+  totalTime?: number
+  // Model name echoed back by the provider
+  model?: string | null
+  streaming?: boolean
+  reasoning?: boolean
+  error?: string
 }
 
 class AIService {
@@ -49,8 +110,41 @@ export const DEFAULT_MIND_ELIXIR_PROVIDER: ProviderConfig = {
   baseUrl: `${import.meta.env.WXT_BACKEND_BASE_URL}/api/v1`
 }
 
+// Azure OpenAI GA API version used when the user has not set one.
+export const AZURE_DEFAULT_API_VERSION = "2024-10-21"
+
+// Default token budget for extended thinking when the user has not set one.
+export const DEFAULT_THINKING_BUDGET = 4096
+
+// Providers that can stream their thinking process.
+export const THINKING_PROVIDERS = ["claude", "gemini"]
+
+// Providers served from the user's own machine or simulated offline. An API key is optional.
+export const LOCAL_PROVIDERS = ["ollama", "llama-cpp", "mock"]
+
+// Scenarios of the offline mock provider, selected by model name.
+export const MOCK_MODELS = [
+  "mock",
+  "mock-reasoning",
+  "mock-error-401",
+  "mock-error-402",
+  "mock-error-429"
+]
+
+export function isLocalProvider(providerId: string): boolean {
+  return LOCAL_PROVIDERS.includes(providerId)
+}
+
+// An encrypted key counts as set even while it is locked
+export function hasApiKey(providerCfg?: ProviderConfig): boolean {
+  return !!(providerCfg?.apiKey || providerCfg?.encryptedApiKey)
+}
+
 export function isAIConfigured(config: AIConfig | null): boolean {
   if (!config) return false
   if (config.activeProvider === "mind-elixir") return true
-  return !!config.providers?.[config.activeProvider]?.apiKey
+  if (isLocalProvider(config.activeProvider)) {
+    return !!config.providers?.[config.activeProvider]
+  }
+  return hasApiKey(config.providers?.[config.activeProvider])
 }
@@ -0,0 +1,257 @@
+/**
+ * API Key 加密存储
+ * 用户设置口令后，各服务商的 API Key 以 AES-GCM 加密后保存在 local:aiConfigV2 中；
+ * 口令经 PBKDF2 派生出密钥，解锁后密钥只保存在 session 存储中，浏览器重启后需要重新解锁
+ */
+import { storage } from "@wxt-dev/storage"
+import type { AIConfig, ProviderConfig } from "~/utils/ai-service"
+import { t } from "~/utils/i18n"
+
+const AI_CONFIG_STORAGE_KEY = "local:aiConfigV2"
+const VAULT_STORAGE_KEY = "local:apiKeyVault"
+// session 存储不落盘，且默认只有扩展页面和后台可以访问
+const SESSION_KEY_STORAGE_KEY = "session:apiKeyVaultKey"
+
+const PBKDF2_ITERATIONS = 310000
+// 解密后与之比较，用于校验口令是否正确
+const VERIFIER_TEXT = "m10c-api-key-vault"
+
+interface VaultMeta {
+  salt: string
+  iterations: number
+  verifier: string
+}
+
+export interface VaultState {
+  enabled: boolean
+  // 已开启加密但本次浏览器会话尚未解锁
+  locked: boolean
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes))
+
+const fromBase64 = (text: string) =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0))
+
+const deriveKey = async (
+  passphrase: string,
+  salt: BufferSource,
+  iterations: number
+) => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  )
+  // 需要导出后存入 session 存储，所以密钥可导出
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    true,
+    ["encrypt", "decrypt"]
+  )
+}
+
+// 密文格式：base64(iv).base64(ciphertext)
+const encrypt = async (key: CryptoKey, text: string) => {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(text)
+  )
+  return `${toBase64(iv)}.${toBase64(new Uint8Array(data))}`
+}
+
+const decrypt = async (key: CryptoKey, value: string) => {
+  const [iv, data] = value.split(".")
+  const plain = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(iv) },
+    key,
+    fromBase64(data)
+  )
+  return new TextDecoder().decode(plain)
+}
+
+const getVaultMeta = () => storage.getItem<VaultMeta>(VAULT_STORAGE_KEY)
+
+const getSessionKey = async (): Promise<CryptoKey | null> => {
+  const raw = await storage.getItem<string>(SESSION_KEY_STORAGE_KEY)
+  if (!raw) return null
+  return crypto.subtle.importKey("raw", fromBase64(raw), "AES-GCM", false, [
+    "encrypt",
+    "decrypt"
+  ])
+}
+
+const setSessionKey = async (key: CryptoKey) => {
+  const raw = await crypto.subtle.exportKey("raw", key)
+  await storage.setItem(SESSION_KEY_STORAGE_KEY, toBase64(new Uint8Array(raw)))
+}
+
+// 对正在使用的配置和保存的其他配置逐一转换
+const mapProviders = async (
+  config: AIConfig,
+  transform: (cfg: ProviderConfig) => Promise<ProviderConfig>
+): Promise<AIConfig> => {
+  const providers = await Promise.all(
+    Object.entries(config.providers || {}).map(
+      async ([id, cfg]) => [id, await transform(cfg)] as const
+    )
+  )
+  const savedProfiles = await Promise.all(
+    Object.entries(config.savedProfiles || {}).map(
+      async ([id, list]) =>
+        [id, await Promise.all(list.map(transform))] as const
+    )
+  )
+  return {
+    ...config,
+    providers: Object.fromEntries(providers),
+    ...(config.savedProfiles && {
+      savedProfiles: Object.fromEntries(savedProfiles)
+    })
+  }
+}
+
+const encryptProvider = async (key: CryptoKey, cfg: ProviderConfig) => {
+  // 未解锁时读取的配置只有密文，原样保留
+  if (cfg.apiKey === undefined) return cfg
+  const { apiKey, encryptedApiKey: _, ...rest } = cfg
+  return apiKey
+    ? { ...rest, encryptedApiKey: await encrypt(key, apiKey) }
+    : rest
+}
+
+const decryptProvider = async (key: CryptoKey, cfg: ProviderConfig) => {
+  if (!cfg.encryptedApiKey) return cfg
+  const { encryptedApiKey, ...rest } = cfg
+  return { ...rest, apiKey: await decrypt(key, encryptedApiKey) }
+}
+
+export async function getVaultState(): Promise<VaultState> {
+  const meta = await getVaultMeta()
+  if (!meta) return { enabled: false, locked: false }
+  return { enabled: true, locked: !(await getSessionKey()) }
+}
+
+/**
+ * 读取 AI 配置；已解锁时解密 API Key，未解锁时配置中只有 encryptedApiKey
+ */
+export async function loadAIConfig(): Promise<AIConfig | null> {
+  const config = await storage.getItem<AIConfig>(AI_CONFIG_STORAGE_KEY)
+  if (!config) return null
+  const key = (await getVaultMeta()) ? await getSessionKey() : null
+  return key ? mapProviders(config, (cfg) => decryptProvider(key, cfg)) : config
+}
+
+/**
+ * 保存 AI 配置；开启加密后 API Key 只以密文保存，未解锁时不能写入新的 Key
+ */
+export async function saveAIConfig(config: AIConfig) {
+  if (!(await getVaultMeta())) {
+    await storage.setItem(AI_CONFIG_STORAGE_KEY, config)
+    return
+  }
+
+  const key = await getSessionKey()
+  if (!key) {
+    const hasPlaintextKey = [
+      ...Object.values(config.providers || {}),
+      ...Object.values(config.savedProfiles || {}).flat()
+    ].some((cfg) => cfg.apiKey)
+    if (hasPlaintextKey) {
+      throw new Error(t("apiKeysLocked"))
+    }
+    await storage.setItem(AI_CONFIG_STORAGE_KEY, config)
+    return
+  }
+
+  await storage.setItem(
+    AI_CONFIG_STORAGE_KEY,
+    await mapProviders(config, (cfg) => encryptProvider(key, cfg))
+  )
+}
+
+/**
+ * 开启加密：用口令派生密钥，并把已保存的明文 Key 迁移为密文
+ */
+export async function enableEncryption(passphrase: string) {
+  const config = await loadAIConfig()
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS)
+
+  await storage.setItem<VaultMeta>(VAULT_STORAGE_KEY, {
+    salt: toBase64(salt),
+    iterations: PBKDF2_ITERATIONS,
+    verifier: await encrypt(key, VERIFIER_TEXT)
+  })
+  await setSessionKey(key)
+  if (config) {
+    await saveAIConfig(config)
+  }
+}
+
+/**
+ * 用口令解锁，口令错误时返回 false
+ */
+export async function unlockVault(passphrase: string): Promise<boolean> {
+  const meta = await getVaultMeta()
+  if (!meta) return true
+
+  const key = await deriveKey(
+    passphrase,
+    fromBase64(meta.salt),
+    meta.iterations
+  )
+  try {
+    if ((await decrypt(key, meta.verifier)) !== VERIFIER_TEXT) return false
+  } catch {
+    return false
+  }
+  await setSessionKey(key)
+
+  // 加密开启后仍以明文写入的 Key（例如中途失败的迁移）在解锁时补充加密
+  const config = await loadAIConfig()
+  if (config) {
+    await saveAIConfig(config)
+  }
+  return true
+}
+
+export async function lockVault() {
+  await storage.removeItem(SESSION_KEY_STORAGE_KEY)
+}
+
+/**
+ * 关闭加密：需要先解锁，API Key 恢复为明文保存
+ */
+export async function disableEncryption() {
+  if (!(await getSessionKey())) {
+    throw new Error(t("apiKeysLocked"))
+  }
+  const config = await loadAIConfig()
+  if (config) {
+    await storage.setItem(AI_CONFIG_STORAGE_KEY, config)
+  }
+  await storage.removeItem(VAULT_STORAGE_KEY)
+  await lockVault()
+}
+
+/**
+ * 忘记口令时重置：删除所有已加密的 API Key 并关闭加密
+ */
+export async function resetEncryption() {
+  const config = await storage.getItem<AIConfig>(AI_CONFIG_STORAGE_KEY)
+  if (config) {
+    await storage.setItem(
+      AI_CONFIG_STORAGE_KEY,
+      await mapProviders(config, async ({ encryptedApiKey: _, ...rest }) => rest)
+    )
+  }
+  await storage.removeItem(VAULT_STORAGE_KEY)
+  await lockVault()
+}
@@ -0,0 +1,215 @@
+/**
+ * 提示词模板
+ * 默认模板、用户自定义模板的存储、变量替换与校验
+ */
+import { storage } from "@wxt-dev/storage"
+import type { AITask } from "~/utils/ai-service"
+import { t } from "~/utils/i18n"
+
+export type PromptTask = AITask
+
+export interface PromptTemplate {
+  system: string
+  // 问答任务的用户消息来自对话本身，没有用户提示词模板
+  user?: string
+}
+
+export type PromptTemplates = Partial<Record<PromptTask, Partial<PromptTemplate>>>
+
+export interface PromptVariables {
+  language: string
+  content: string
+  title?: string
+  url?: string
+}
+
+export const PROMPT_TEMPLATES_STORAGE_KEY = "local:promptTemplates"
+
+// 模板中可用的变量
+export const PROMPT_VARIABLES = ["language", "title", "content", "url"] as const
+
+export const PROMPT_TASKS: PromptTask[] = [
+  "summary",
+  "videoMindmap",
+  "articleMindmap",
+  "chat"
+]
+
+const MINDMAP_SYSTEM = `
+You are a mindmap generator.
+CRITICAL CONSTRAINT: You MUST write the entire mindmap content (including all node texts, summary texts, and relation labels) strictly in the target language: {{language}}.
+
+You should output the mindmap in a specific plaintext format that can be parsed line by line.
+
+Format Definition:
+- Core Topic Title
+  - Main Point A
+    - Detail A-1
+    - Detail A-2
+    - }:2 Summary of previous 2 nodes
+  - Main Point B [^id1]
+    - Sub-point B-1 {"color": "#e87a90"}
+    - Sub-point B-2 {"background": "#ecf0f1", "color": "#333333"}
+    - Sub-point B-3 [^id2]
+    - } Summary of all previous siblings
+  - > [^id1] <-Relation-> [^id2]
+
+Rules:
+1. The root node (zero indentation) MUST be the core topic extracted from the content. NEVER use generic placeholders like "Root" as the root text. There MUST be exactly one unique root node at the beginning. The entire content MUST stem from this single root. Multiple nodes at zero indentation are STRICTLY FORBIDDEN. The root node MUST also start with "- " just like every other node — e.g. "- Core Topic Title".
+2. Use indentation (exactly 2 spaces per level) to represent hierarchy.
+3. Every node line MUST start with "- " (dash followed by a space).
+4. Use "[^id]" at the end of a node topic to define a unique ID for cross-referencing.
+5. Use JSON-like syntax at the end of a node topic for styling: {"color": "#hex", "background": "#hex", "fontSize": "16"}. Use this feature with extreme restraint. By default, do NOT add colors or background styles to standard nodes. Only apply styling to highly critical or special nodes that require strong visual emphasis.
+6. Summary nodes:
+   - Use "} Summary Text" to summarize ALL previous siblings at the same level.
+   - Use "}:n Summary Text" to summarize the previous n siblings at the same level.
+7. Relationship links (can be placed on any line):
+   - Bidirectional: "> [^id1] <-Label-> [^id2]"
+   - Unidirectional: "> [^id1] >-Label-> [^id2]"
+8. Language Requirement (CRITICAL):
+   - You MUST generate all output (node names, titles, labels, and summary texts) strictly in {{language}}.
+   - Even if the input content (subtitles, transcript, or article) is in English or any other language, you MUST translate and summarize it into {{language}}.
+   - Do NOT output English node names or labels unless they are proper nouns or code/technical terms that should not be translated.
+9. Do NOT wrap the output in markdown code blocks. Just valid plaintext.
+`
+
+export const DEFAULT_PROMPT_TEMPLATES: Record<PromptTask, PromptTemplate> = {
+  summary: {
+    system: `你是一个知识提取专家。请仔细分析用户提供的内容，并按照以下要求生成结构化的分析结果：
+
+**分析要求：**
+1. **总结**：生成500-1000字的精炼总结，概括视频的核心内容 and 主要观点。
+2. **关键要点**：提取3-8个最重要的知识点或观点，每个要点简洁明了，使用列表形式。
+3. **主要话题**：识别2-6个核心话题标签，便于分类和检索。
+
+**输出格式：**
+请直接使用**Markdown**格式输出，不要包含任何JSON结构或其他无关内容。
+
+**注意事项：**
+- 保证输出全文的语言都为{{language}}
+- 保持客观和准确
+- 避免重复内容`,
+    user: `请分析以下内容：
+
+**字幕内容：**
+{{content}}
+
+请按照系统要求生成结构化的分析结果。`
+  },
+  videoMindmap: {
+    system: MINDMAP_SYSTEM,
+    user: `请根据以下内容生成思维导图：
+
+标题：{{title}}
+
+内容：
+{{content}}`
+  },
+  articleMindmap: {
+    system: MINDMAP_SYSTEM,
+    user: `请根据以下文章内容生成思维导图：
+
+标题：{{title}}
+
+内容：
+{{content}}`
+  },
+  chat: {
+    system: `你是一个内容问答助手。用户会针对下方提供的内容提问，请仅依据这些内容回答。
+
+**回答要求：**
+1. 只使用内容中的信息回答，不要编造内容中没有的事实。
+2. 如果内容中没有相关信息，请直接说明内容未提及，不要猜测。
+3. 内容中带有 [mm:ss] 或 [hh:mm:ss] 时间戳时，请在回答中引用相关片段的时间戳，例如 [12:34]。
+4. 回答简洁明了，使用**Markdown**格式。
+
+**注意事项：**
+- 默认使用{{language}}回答，除非用户明确要求使用其他语言
+
+**标题：**{{title}}
+
+**内容：**
+{{content}}`
+  }
+}
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g
+
+/**
+ * 读取用户自定义模板，未自定义的部分使用默认模板
+ */
+export async function getPromptTemplate(
+  task: PromptTask
+): Promise<PromptTemplate> {
+  const custom = await storage
+    .getItem<PromptTemplates>(PROMPT_TEMPLATES_STORAGE_KEY)
+    .catch(() => null)
+  return { ...DEFAULT_PROMPT_TEMPLATES[task], ...custom?.[task] }
+}
+
+const getVariable = (variables: PromptVariables, name: string): string =>
+  variables[name as keyof PromptVariables] ?? ""
+
+/**
+ * 替换模板中的变量；所含变量都为空的行整行省略（例如没有标题时的“标题：”行），
+ * 并去掉因此多出的空行
+ */
+export function renderTemplate(
+  template: string,
+  variables: PromptVariables
+): string {
+  const lines: string[] = []
+  let omitted = false
+
+  for (const line of template.split("\n")) {
+    const names = [...line.matchAll(VARIABLE_PATTERN)].map((match) => match[1])
+    const empty = names.every((name) => !getVariable(variables, name))
+    if (names.length > 0 && empty) {
+      omitted = true
+      continue
+    }
+    const previous = lines[lines.length - 1]
+    if (omitted && !line.trim() && previous !== undefined && !previous.trim()) {
+      continue
+    }
+    omitted = false
+    lines.push(
+      line.replace(VARIABLE_PATTERN, (_, name: string) =>
+        getVariable(variables, name)
+      )
+    )
+  }
+  return lines.join("\n")
+}
+
+/**
+ * 校验模板，返回错误信息；模板有效时返回 null
+ */
+export function validateTemplate(template: PromptTemplate): string | null {
+  const parts = [template.system, template.user].filter(
+    (part): part is string => part !== undefined
+  )
+
+  for (const part of parts) {
+    if (!part.trim()) {
+      return t("promptTemplateEmpty")
+    }
+    // 去掉合法变量后，仍残留的花括号说明变量写法有误
+    const stripped = part.replace(VARIABLE_PATTERN, "")
+    if (stripped.includes("{{") || stripped.includes("}}")) {
+      return t("promptTemplateMalformed")
+    }
+    for (const [, name] of part.matchAll(VARIABLE_PATTERN)) {
+      if (!(PROMPT_VARIABLES as readonly string[]).includes(name)) {
+        return t("promptTemplateUnknownVariable", name)
+      }
+    }
+  }
+
+  // 内容必须出现在系统或用户提示词中，否则 AI 无法获取待处理的内容
+  if (!parts.some((part) => /\{\{\s*content\s*\}\}/.test(part))) {
+    return t("promptTemplateMissingContent")
+  }
+
+  return null
+}
@@ -0,0 +1,138 @@
+/**
+ * 服务商配置档案
+ * 同一服务商可以保存多套命名配置（API Key、API 地址、模型）。正在使用的一套仍位于 providers 中，
+ * 其余保存在 savedProfiles 中，切换时互换位置，因此后台等读取 providers 的代码不需要感知档案
+ */
+import { storage } from "@wxt-dev/storage"
+import type { AIConfig, ProviderConfig } from "~/utils/ai-service"
+import { hasApiKey, isLocalProvider } from "~/utils/ai-service"
+import { t } from "~/utils/i18n"
+
+export interface ProfileOption {
+  providerId: string
+  // 未命名的配置为 undefined，显示为“默认”
+  name?: string
+  // 在 savedProfiles 中的位置；正在使用的配置为 undefined。
+  // 名称可以为空或重复，所以按位置区分配置
+  savedIndex?: number
+  active: boolean
+}
+
+export function getProfileLabel(option: ProfileOption): string {
+  return `${option.name || t("defaultProfile")} · ${option.providerId}`
+}
+
+/**
+ * 列出可切换的配置：每个可用服务商正在使用的配置，以及保存的其他配置
+ */
+export function listProfiles(config: AIConfig | null): ProfileOption[] {
+  if (!config) return []
+  const providerIds = new Set([
+    config.activeProvider,
+    ...Object.keys(config.providers || {})
+  ])
+  const options: ProfileOption[] = []
+
+  providerIds.forEach((providerId) => {
+    const cfg = config.providers?.[providerId]
+    const usable =
+      providerId === "mind-elixir" ||
+      (isLocalProvider(providerId) ? !!cfg : hasApiKey(cfg))
+    if (usable) {
+      options.push({
+        providerId,
+        name: cfg?.profileName,
+        active: providerId === config.activeProvider
+      })
+    }
+    const saved = config.savedProfiles?.[providerId] || []
+    saved.forEach((profile, index) => {
+      options.push({
+        providerId,
+        name: profile.profileName,
+        savedIndex: index,
+        active: false
+      })
+    })
+  })
+  return options
+}
+
+/**
+ * 切换到指定服务商的指定配置：当前配置存入 savedProfiles，目标配置移入 providers
+ * @param savedIndex 目标配置在 savedProfiles 中的位置，不传时使用该服务商正在使用的配置
+ */
+export function applyProfile(
+  config: AIConfig,
+  providerId: string,
+  savedIndex?: number
+): AIConfig {
+  const current = config.providers[providerId]
+  const saved = config.savedProfiles?.[providerId] || []
+  const target = savedIndex === undefined ? undefined : saved[savedIndex]
+  if (!target) {
+    return { ...config, activeProvider: providerId }
+  }
+
+  const rest = saved.filter((_, i) => i !== savedIndex)
+  return {
+    ...config,
+    activeProvider: providerId,
+    providers: { ...config.providers, [providerId]: target },
+    savedProfiles: {
+      ...config.savedProfiles,
+      [providerId]: current ? [...rest, current] : rest
+    }
+  }
+}
+
+/**
+ * 新建配置并立即使用，原来的配置存入 savedProfiles
+ */
+export function addProfile(
+  config: AIConfig,
+  providerId: string,
+  profile: ProviderConfig
+): AIConfig {
+  const current = config.providers[providerId]
+  const saved = config.savedProfiles?.[providerId] || []
+  return {
+    ...config,
+    providers: { ...config.providers, [providerId]: profile },
+    savedProfiles: {
+      ...config.savedProfiles,
+      [providerId]: current ? [...saved, current] : saved
+    }
+  }
+}
+
+/**
+ * 删除正在使用的配置，改用保存的第一套配置
+ */
+export function removeActiveProfile(
+  config: AIConfig,
+  providerId: string
+): AIConfig {
+  const [next, ...rest] = config.savedProfiles?.[providerId] || []
+  if (!next) return config
+  return {
+    ...config,
+    providers: { ...config.providers, [providerId]: next },
+    savedProfiles: { ...config.savedProfiles, [providerId]: rest }
+  }
+}
+
+/**
+ * 在弹窗和面板中快速切换：直接修改存储中的配置，加密的 API Key 原样移动，无需解锁
+ */
+export async function switchProfile(
+  providerId: string,
+  savedIndex?: number
+) {
+  const config = await storage.getItem<AIConfig>("local:aiConfigV2")
+  if (!config) return
+  await storage.setItem(
+    "local:aiConfigV2",
+    applyProfile(config, providerId, savedIndex)
+  )
+}
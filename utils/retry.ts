@@ -0,0 +1,127 @@
+/**
+ * 通用重试工具
+ * 对 429 和 5xx 响应（以及调用方允许时的网络错误）按指数退避重试，并遵循 Retry-After 响应头
+ */
+import { DEFAULT_SETTINGS } from "~/config/platforms"
+
+export interface RetryOptions {
+  // 最大重试次数（不含首次请求）
+  maxRetries?: number
+  // 首次重试的等待时间（毫秒），之后按指数增长
+  retryDelay?: number
+  // 单次等待的上限（毫秒）；Retry-After 要求的等待超过该值时不再重试
+  maxDelay?: number
+  // 是否重试 fetch 抛出的网络错误；跨域被拒等错误重试也不会成功，默认不重试
+  retryNetworkErrors?: boolean
+  // 每次重试前的回调，可用于日志或进度提示
+  onRetry?: (attempt: number, delay: number, reason: string) => void
+}
+
+const DEFAULT_MAX_DELAY = 30000
+
+// 可以重试的 HTTP 状态码
+export const isRetryableStatus = (status: number): boolean =>
+  status === 408 || status === 429 || status >= 500
+
+const createAbortError = () => new DOMException("Aborted", "AbortError")
+
+/**
+ * 可被 AbortSignal 取消的等待
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError())
+      return
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(createAbortError())
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+  })
+
+/**
+ * 解析 Retry-After 响应头（秒数或 HTTP 日期），返回毫秒
+ */
+export const parseRetryAfter = (value: string | null): number | null => {
+  if (!value) return null
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+  const date = Date.parse(value)
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now())
+  }
+  return null
+}
+
+/**
+ * 计算第 attempt 次重试的等待时间（带随机抖动的指数退避）
+ */
+const getBackoffDelay = (
+  attempt: number,
+  retryDelay: number,
+  maxDelay: number
+): number => {
+  const exponential = retryDelay * 2 ** (attempt - 1)
+  const jitter = Math.random() * retryDelay
+  return Math.min(exponential + jitter, maxDelay)
+}
+
+/**
+ * 带重试的 fetch
+ * 返回最后一次的响应，非 2xx 的处理仍由调用方负责；
+ * 通过 init.signal 取消时会立即停止等待并抛出 AbortError
+ */
+export async function fetchWithRetry(
+  input: string | URL,
+  init: RequestInit = {},
+  options: RetryOptions = {}
+): Promise<Response> {
+  const {
+    maxRetries = DEFAULT_SETTINGS.maxRetries,
+    retryDelay = DEFAULT_SETTINGS.retryDelay,
+    maxDelay = DEFAULT_MAX_DELAY,
+    retryNetworkErrors = false,
+    onRetry
+  } = options
+  const signal = init.signal ?? undefined
+
+  for (let attempt = 0; ; attempt++) {
+    let response: Response
+    try {
+      response = await fetch(input, init)
+    } catch (error) {
+      // 取消请求、未允许重试网络错误或已达到重试上限时直接抛出
+      if (signal?.aborted || !retryNetworkErrors || attempt >= maxRetries) {
+        throw error
+      }
+      const delay = getBackoffDelay(attempt + 1, retryDelay, maxDelay)
+      onRetry?.(attempt + 1, delay, String(error))
+      await sleep(delay, signal)
+      continue
+    }
+
+    if (!isRetryableStatus(response.status) || attempt >= maxRetries) {
+      return response
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get("Retry-After"))
+    // 服务端要求等待的时间过长，提前重试只会再次被拒绝，直接交给调用方处理
+    if (retryAfter !== null && retryAfter > maxDelay) {
+      return response
+    }
+    const delay =
+      retryAfter ?? getBackoffDelay(attempt + 1, retryDelay, maxDelay)
+    onRetry?.(attempt + 1, delay, `HTTP ${response.status}`)
+    // 丢弃本次响应体，释放连接
+    response.body?.cancel().catch(() => {})
+    await sleep(delay, signal)
+  }
+}
@@ -1,4 +1,7 @@
 // 共享的字幕工具函数
+import { storage } from "@wxt-dev/storage"
+import { getPreferredLanguage, LANGUAGE_CODES } from "~/config/platforms"
+import { getMatchedBrowserLanguage } from "~/utils/i18n"
 
 export interface BaseSubtitleItem {
   startTime: number
@@ -11,10 +14,60 @@ export interface VideoInfo {
   videoId?: string
   bvid?: string
   cid?: number
+  // Bilibili 分P视频的分P序号
+  page?: number
   title: string
   platform?: "bilibili" | "youtube"
 }
 
+// 视频的一条字幕轨道
+export interface SubtitleTrack {
+  id: string
+  // 语言代码，用于匹配首选语言
+  lang: string
+  // 在字幕轨道选择器中显示的名称
+  label: string
+  // AI 生成或自动识别的字幕
+  auto?: boolean
+  // 机器翻译的字幕，在选择器中归入自动翻译子菜单
+  translated?: boolean
+}
+
+// 首选字幕语言：跟随 AI 回复语言设置，未设置时使用浏览器语言
+export const getPreferredSubtitleLanguage = async (): Promise<string> => {
+  const config = await storage
+    .getItem<{ replyLanguage?: string }>("local:aiConfigV2")
+    .catch(() => null)
+  const lang =
+    config?.replyLanguage && config.replyLanguage !== "auto"
+      ? config.replyLanguage
+      : getMatchedBrowserLanguage()
+  // LANGUAGE_CODES 以基础语言代码为键，例如 zh-CN 对应 zh
+  return lang.split("-")[0]
+}
+
+// 选择默认字幕轨道：优先首选语言的人工字幕，其次首选语言的自动字幕，都没有时取第一条人工字幕
+export const selectDefaultTrack = <T extends SubtitleTrack>(
+  tracks: T[],
+  preferred: string
+): T | null => {
+  const preferredCodes = LANGUAGE_CODES[preferred] || [preferred]
+  const manual = tracks.filter((track) => !track.auto)
+  const auto = tracks.filter((track) => track.auto)
+
+  for (const group of [manual, auto]) {
+    const lang = getPreferredLanguage(
+      group.map((track) => track.lang),
+      preferred
+    )
+    // getPreferredLanguage 找不到首选语言时会返回第一个可用语言，这里需要区分
+    if (preferredCodes.includes(lang)) {
+      return group.find((track) => track.lang === lang) || null
+    }
+  }
+  return manual[0] || auto[0] || null
+}
+
 // 格式化时间显示
 export const formatTime = (seconds: number): string => {
   const hours = Math.floor(seconds / 3600)
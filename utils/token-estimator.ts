@@ -0,0 +1,127 @@
+/**
+ * Token 估算与费用计算工具
+ */
+
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+}
+
+// 每百万 Token 的价格（美元）
+interface ModelPrice {
+  input: number
+  output: number
+}
+
+// 按模型名匹配价格，越具体的名称越靠前
+const MODEL_PRICES: [string, ModelPrice][] = [
+  ["gpt-4o-mini", { input: 0.15, output: 0.6 }],
+  ["gpt-4o", { input: 2.5, output: 10 }],
+  ["gpt-4.1-nano", { input: 0.1, output: 0.4 }],
+  ["gpt-4.1-mini", { input: 0.4, output: 1.6 }],
+  ["gpt-4.1", { input: 2, output: 8 }],
+  ["o4-mini", { input: 1.1, output: 4.4 }],
+  ["o3-mini", { input: 1.1, output: 4.4 }],
+  ["o3", { input: 2, output: 8 }],
+  ["claude-opus-4", { input: 15, output: 75 }],
+  ["claude-sonnet-4", { input: 3, output: 15 }],
+  ["claude-3-7-sonnet", { input: 3, output: 15 }],
+  ["claude-3-5-sonnet", { input: 3, output: 15 }],
+  ["claude-haiku-4", { input: 1, output: 5 }],
+  ["claude-3-5-haiku", { input: 0.8, output: 4 }],
+  ["gemini-2.5-pro", { input: 1.25, output: 10 }],
+  ["gemini-2.5-flash-lite", { input: 0.1, output: 0.4 }],
+  ["gemini-2.5-flash", { input: 0.3, output: 2.5 }],
+  ["gemini-2.0-flash", { input: 0.1, output: 0.4 }],
+  ["deepseek-reasoner", { input: 0.55, output: 2.19 }],
+  ["deepseek-chat", { input: 0.27, output: 1.1 }]
+]
+
+// 生成前无法得知输出长度，按任务给一个大致的输出 Token 数
+export const EXPECTED_OUTPUT_TOKENS: Record<string, number> = {
+  summarizeSubtitlesStream: 1500,
+  generateMindmapStream: 2000,
+  generateArticleMindmapStream: 2000
+}
+
+// 按模型名匹配上下文窗口大小（Token 数），越具体的名称越靠前
+const MODEL_CONTEXT_WINDOWS: [string, number][] = [
+  ["gpt-4o", 128_000],
+  ["gpt-4.1", 1_000_000],
+  ["gpt-5", 400_000],
+  ["o4-mini", 200_000],
+  ["o3", 200_000],
+  ["claude", 200_000],
+  ["gemini", 1_000_000],
+  ["deepseek", 64_000]
+]
+
+// 未知模型（例如本地模型）按较小的上下文窗口处理
+export const DEFAULT_CONTEXT_WINDOW = 32_000
+
+// 超长内容分段总结时，每段要点的大致输出 Token 数
+export const EXPECTED_CHUNK_OUTPUT_TOKENS = 800
+
+/**
+ * 粗略估算文本的 Token 数
+ * 中日韩字符约 1 个字符 1 个 Token，其余文本约 4 个字符 1 个 Token
+ */
+export function estimateTokens(text: string): number {
+  if (!text) return 0
+  const cjk = text.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g)?.length || 0
+  return Math.ceil(cjk + (text.length - cjk) / 4)
+}
+
+/**
+ * 查找模型价格，未知模型返回 null
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+  // OpenRouter 等服务商的模型名带有 "openai/" 之类的前缀
+  const name = model.toLowerCase().split("/").pop() || ""
+  const entry = MODEL_PRICES.find(([key]) => name.startsWith(key))
+  return entry ? entry[1] : null
+}
+
+/**
+ * 查找模型的上下文窗口大小，未知模型返回默认值
+ */
+export function getContextWindow(model: string): number {
+  const name = model.toLowerCase().split("/").pop() || ""
+  const entry = MODEL_CONTEXT_WINDOWS.find(([key]) => name.startsWith(key))
+  return entry ? entry[1] : DEFAULT_CONTEXT_WINDOW
+}
+
+/**
+ * 计算费用（美元），价格未知时返回 null
+ */
+export function estimateCost(
+  model: string,
+  usage: TokenUsage,
+  price: ModelPrice | null = getModelPrice(model)
+): number | null {
+  if (!price) return null
+  return (
+    (usage.inputTokens * price.input + usage.outputTokens * price.output) /
+    1_000_000
+  )
+}
+
+export function addUsage(
+  a: TokenUsage | null,
+  b: TokenUsage | null
+): TokenUsage | null {
+  if (!a) return b
+  if (!b) return a
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens
+  }
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens.toLocaleString()
+}
+
+export function formatCost(cost: number): string {
+  return `$${cost < 0.01 ? cost.toFixed(4) : cost.toFixed(2)}`
+}
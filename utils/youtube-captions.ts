@@ -0,0 +1,241 @@
+/**
+ * YouTube 字幕轨道
+ * 从观看页的 ytInitialPlayerResponse 读取可用的字幕轨道和自动翻译语言。
+ * 很多视频的字幕接口要求带 pot 参数，只有播放器自己发出的请求里才有，
+ * 因此加载字幕时以轨道的 baseUrl 为准，再补上捕获到的请求中的 pot 等参数；
+ * 没有 pot 时也可以通过“显示转写文稿”面板使用的 get_transcript 接口获取文稿。
+ * 这些请求只能从 www.youtube.com 和 m.youtube.com 的页面发出
+ */
+import { fetchWithRetry } from "~/utils/retry"
+import type { SubtitleTrack } from "~/utils/subtitle-utils"
+
+export interface CaptionSegment {
+  start: number
+  dur: number
+  text: string
+}
+
+// 从观看页读取的数据
+export interface WatchPageData {
+  playerResponse: any
+  // ytInitialData，其中包含转写文稿面板的请求参数
+  initialData: any
+  apiKey: string | null
+  clientVersion: string | null
+}
+
+export interface YouTubeCaptionTrack extends SubtitleTrack {
+  baseUrl: string
+  // 自动翻译的目标语言
+  tlang?: string
+}
+
+// 这些参数决定加载哪条轨道，不能从捕获的请求中复制
+const TRACK_PARAMS = ["lang", "kind", "name", "tlang", "fmt"]
+
+// 观看页、文稿接口和字幕接口都不返回 CORS 响应头，只能从同源页面请求
+const WATCH_PAGE_HOSTS = ["www.youtube.com", "m.youtube.com"]
+
+/**
+ * 当前页面可以请求观看页时返回其 origin；YouTube Music、嵌入播放器等域名返回 null，
+ * 由调用方直接点击CC按钮捕获字幕
+ */
+const getWatchPageOrigin = (): string | null =>
+  WATCH_PAGE_HOSTS.includes(location.hostname) ? location.origin : null
+
+// 从 HTML 中截取 `name = {...}` 形式的 JSON 对象，按括号配对并跳过字符串内容
+const extractJsonObject = (html: string, name: string): any => {
+  const marker = html.indexOf(`${name} = `)
+  if (marker === -1) return null
+  const start = html.indexOf("{", marker)
+
+  let depth = 0
+  let inString = false
+  for (let i = start; i < html.length; i++) {
+    const char = html[i]
+    if (inString) {
+      if (char === "\\") i++
+      else if (char === '"') inString = false
+    } else if (char === '"') {
+      inString = true
+    } else if (char === "{") {
+      depth++
+    } else if (char === "}" && --depth === 0) {
+      try {
+        return JSON.parse(html.slice(start, i + 1))
+      } catch {
+        return null
+      }
+    }
+  }
+  return null
+}
+
+// 从页面配置中读取 "name":"value" 形式的字符串
+const extractConfigValue = (html: string, name: string): string | null => {
+  const match = html.match(new RegExp(`"${name}":"([^"]+)"`))
+  return match ? match[1] : null
+}
+
+// 深度优先查找第一个名为 key 的字段
+const findKey = (value: any, key: string): any => {
+  if (!value || typeof value !== "object") return undefined
+  if (key in value) return value[key]
+  for (const child of Object.values(value)) {
+    const found = findKey(child, key)
+    if (found !== undefined) return found
+  }
+  return undefined
+}
+
+// YouTube 的文本字段可能是 simpleText 或 runs
+const getText = (text: any): string =>
+  text?.simpleText ||
+  text?.runs?.map((run: { text: string }) => run.text).join("") ||
+  ""
+
+/**
+ * 获取视频的观看页数据；页面是单页应用，导航后页面中的 ytInitialPlayerResponse 不会更新，
+ * 所以重新请求观看页
+ */
+export async function fetchWatchPage(
+  videoId: string
+): Promise<WatchPageData | null> {
+  const origin = getWatchPageOrigin()
+  if (!origin) return null
+
+  // 失败时还可以使用其他方式获取字幕，不重试以免拖慢后续步骤
+  const response = await fetchWithRetry(
+    `${origin}/watch?v=${encodeURIComponent(videoId)}`,
+    { credentials: "include" },
+    { maxRetries: 0 }
+  )
+  const html = await response.text()
+  const playerResponse = extractJsonObject(html, "ytInitialPlayerResponse")
+  // 防止拿到其他视频的数据（例如被重定向）
+  if (playerResponse?.videoDetails?.videoId !== videoId) return null
+
+  return {
+    playerResponse,
+    initialData: extractJsonObject(html, "ytInitialData"),
+    apiKey: extractConfigValue(html, "INNERTUBE_API_KEY"),
+    clientVersion: extractConfigValue(html, "INNERTUBE_CLIENT_VERSION")
+  }
+}
+
+/**
+ * 通过转写文稿面板的接口获取默认语言的文稿，不需要 pot 参数；视频没有文稿时返回空数组
+ */
+export async function fetchTranscript(
+  page: WatchPageData
+): Promise<CaptionSegment[]> {
+  const origin = getWatchPageOrigin()
+  const params = findKey(page.initialData, "getTranscriptEndpoint")?.params
+  if (!origin || !params || !page.clientVersion) return []
+
+  const url = new URL("/youtubei/v1/get_transcript", origin)
+  url.searchParams.set("prettyPrint", "false")
+  if (page.apiKey) {
+    url.searchParams.set("key", page.apiKey)
+  }
+  const response = await fetchWithRetry(
+    url.toString(),
+    {
+      method: "POST",
+      credentials: "include",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        context: {
+          client: { clientName: "WEB", clientVersion: page.clientVersion }
+        },
+        params
+      })
+    },
+    { maxRetries: 0 }
+  )
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const data = await response.json()
+  const segments: any[] = findKey(data, "initialSegments") || []
+  return (
+    segments
+      // 章节标题等不是文稿内容
+      .map((segment) => segment.transcriptSegmentRenderer)
+      .filter(Boolean)
+      .map((segment) => ({
+        start: Number(segment.startMs) / 1000,
+        dur: (Number(segment.endMs) - Number(segment.startMs)) / 1000,
+        text: getText(segment.snippet).replace(/\n/g, " ").trim()
+      }))
+      .filter((segment) => segment.text)
+  )
+}
+
+/**
+ * 列出字幕轨道：视频自带的人工字幕和自动生成字幕，以及由默认轨道自动翻译的各语言
+ */
+export function getCaptionTracks(playerResponse: any): YouTubeCaptionTrack[] {
+  const renderer = playerResponse?.captions?.playerCaptionsTracklistRenderer
+  const captionTracks: any[] = renderer?.captionTracks || []
+
+  const tracks: YouTubeCaptionTrack[] = captionTracks.map((track) => ({
+    id: track.vssId || `${track.kind || ""}.${track.languageCode}`,
+    lang: track.languageCode,
+    label: getText(track.name) || track.languageCode,
+    auto: track.kind === "asr",
+    baseUrl: track.baseUrl
+  }))
+
+  // 自动翻译以第一条可翻译的人工字幕为源，没有时使用自动生成字幕
+  const translatable = captionTracks.filter((track) => track.isTranslatable)
+  const sourceIndex = captionTracks.indexOf(
+    translatable.find((track) => track.kind !== "asr") || translatable[0]
+  )
+  if (sourceIndex === -1) return tracks
+
+  const source = tracks[sourceIndex]
+  const translations: YouTubeCaptionTrack[] = (
+    renderer?.translationLanguages || []
+  )
+    .filter((language: any) => language.languageCode !== source.lang)
+    .map((language: any) => ({
+      id: `${source.id}>${language.languageCode}`,
+      lang: language.languageCode,
+      label: getText(language.languageName) || language.languageCode,
+      auto: true,
+      translated: true,
+      baseUrl: source.baseUrl,
+      tlang: language.languageCode
+    }))
+  return [...tracks, ...translations]
+}
+
+/**
+ * 生成轨道的字幕地址；capturedUrl 为播放器发出的同一视频的字幕请求
+ */
+export function buildCaptionUrl(
+  track: YouTubeCaptionTrack,
+  capturedUrl?: string | null
+): string {
+  // 轨道地址指向 www.youtube.com，在移动版页面上改为同源地址
+  const origin = getWatchPageOrigin() || "https://www.youtube.com"
+  const baseUrl = new URL(track.baseUrl, origin)
+  const url = new URL(baseUrl.pathname + baseUrl.search, origin)
+
+  if (capturedUrl) {
+    const captured = new URL(capturedUrl)
+    captured.searchParams.forEach((value, key) => {
+      if (!TRACK_PARAMS.includes(key) && !url.searchParams.has(key)) {
+        url.searchParams.set(key, value)
+      }
+    })
+  }
+
+  if (track.tlang) {
+    url.searchParams.set("tlang", track.tlang)
+  }
+  url.searchParams.set("fmt", "json3")
+  return url.toString()
+}